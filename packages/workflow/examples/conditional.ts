@@ -13,14 +13,33 @@ export default WorkflowBuilder.create()
     return parse(schema, res);
   })
   .addNode(
-    { key: "say", deps: ["input"], schema: t.Boolean() },
-    ({ get, step }) => {
-      if (get("input") === "dog") {
-        step({ key: "say_dog", schema: DoneSchema });
-      } else {
-        step({ key: "say_cat", schema: DoneSchema });
-      }
-      return true;
+    {
+      key: "say_dog",
+      deps: ["input"],
+      when: ({ get }) => get("input") === "dog",
+      schema: DoneSchema,
     },
+    ({ step }) =>
+      parse(DoneSchema, step({ key: "say_dog", schema: DoneSchema })),
+  )
+  .addNode(
+    {
+      key: "say_cat",
+      deps: ["input"],
+      when: ({ get }) => get("input") === "cat",
+      schema: DoneSchema,
+    },
+    ({ step }) =>
+      parse(DoneSchema, step({ key: "say_cat", schema: DoneSchema })),
+  )
+  .addNode(
+    {
+      key: "say",
+      deps: ["say_dog", "say_cat"],
+      // Only one of the branches runs, the other one is skipped
+      onSkippedDependency: "undefined",
+      schema: t.Boolean(),
+    },
+    () => true,
   )
   .build();
@@ -0,0 +1,535 @@
+import { Kind, type TSchema } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import _ from "lodash";
+import isEqual from "lodash-es/isEqual";
+import {
+  CaptureFailedError,
+  NonDeterminismError,
+  StepTimeoutError,
+  StepValidationError,
+} from "./errors";
+import { hashToUnit, uuidFrom } from "./random";
+import {
+  CaptureFailureSchema,
+  DEFAULT_VERSION,
+  NowSchema,
+  RandomSchema,
+  TimeoutSchema,
+  VersionSchema,
+  WaitSchema,
+} from "./schemas";
+import type {
+  CaptureOptions,
+  FullStepContext,
+  RetryPolicy,
+  StepContext,
+  Warning,
+  WorkflowContext,
+  WorkflowInterceptor,
+} from "./types";
+import type {
+  Result,
+  RunOptions,
+  StepEvent,
+  StepEventWithContext,
+} from "./workflow";
+
+/**
+ * Checks a step value against the TypeBox schema of the step.
+ * Schemas that are not TypeBox schemas are not checked.
+ *
+ * @throws StepValidationError if the value does not match the schema.
+ */
+export const validateStep = (
+  step: string[],
+  schema: object,
+  value: unknown,
+): void => {
+  if (!(Kind in schema) || Value.Check(schema as TSchema, value)) return;
+  throw new StepValidationError(
+    step,
+    [...Value.Errors(schema as TSchema, value)].map(({ path, message }) => ({
+      path,
+      message,
+    })),
+  );
+};
+
+export class InputInterrupt extends Error {
+  constructor(
+    public step: FullStepContext,
+    public waitUntil?: number,
+  ) {
+    super(`Interrupt at ${step}`); // (1)
+  }
+}
+
+/**
+ * Delay before the attempt following the failed attempt `attempt`.
+ */
+const retryDelay = (
+  { backoff = 0, maxDelay = Number.POSITIVE_INFINITY }: RetryPolicy,
+  attempt: number,
+): number =>
+  Math.min(
+    typeof backoff === "function"
+      ? backoff(attempt)
+      : backoff * 2 ** (attempt - 1),
+    maxDelay,
+  );
+
+export class PromiseInterrupt extends Error {
+  constructor(
+    public step: string,
+    public promise: Promise<unknown>,
+    public context: StepContext,
+    /** Records a rejection of `promise` for a retry, returns false if it should not be retried */
+    public recover?: (error: unknown) => boolean,
+    /** The attempt of the capture that returned `promise` */
+    public attempt = 1,
+  ) {
+    super(`Interrupt at ${step}`); // (1)
+  }
+}
+
+/**
+ * State shared by all nodes during a single run.
+ */
+export type RunState = {
+  results: Record<string, Result<unknown> | undefined>;
+  opts: RunOptions;
+  /** Set once the run has been torn down, e.g. after a timeout */
+  closed: boolean;
+  /** Aborted when the run is cancelled or times out */
+  signal: AbortSignal;
+  /** Signals that no node has consumed yet, by name, oldest first */
+  signals: Record<string, StepEvent[]>;
+  /** Replays recorded events only, captured functions are not called */
+  replay: boolean;
+  /** The seed of `random`, and whether any node drew from it */
+  random: { seed: string; used: boolean };
+  /** Key path of the subworkflow node this run belongs to, if any */
+  prefix: string[];
+  /** Interceptors of the workflow, then those of the run */
+  interceptors: WorkflowInterceptor[];
+};
+
+type Hook = Exclude<keyof WorkflowInterceptor, "wrapCapture">;
+
+/**
+ * Calls a hook of every interceptor of a run, in registration order. Errors
+ * thrown by a hook are ignored, so that observing a run cannot break it.
+ */
+export const notify = <H extends Hook>(
+  run: RunState,
+  hook: H,
+  info: Parameters<NonNullable<WorkflowInterceptor[H]>>[0],
+): void => {
+  for (const interceptor of run.interceptors) {
+    try {
+      (interceptor[hook] as ((i: typeof info) => void) | undefined)?.call(
+        interceptor,
+        info,
+      );
+    } catch {
+      // The other interceptors and the run go on
+    }
+  }
+};
+
+/**
+ * The compensation of a captured function whose result was recorded.
+ */
+export type Compensation = {
+  /** Full key path of the capture event */
+  key: string[];
+  /** Timestamp of the capture event */
+  ts: number;
+  compensate: () => unknown;
+};
+
+/**
+ * Replay state of a single node during a run.
+ */
+export type NodeExecution = {
+  /** Key path prefix of the steps of the node */
+  keys: string[];
+  /**
+   * Events to replay: persisted, then incoming. Events captured during this
+   * run are inserted at the cursor, so that they are replayed after a promise
+   * settles.
+   */
+  events: StepEvent[];
+  /** Number of events at the start of `events` that come from the persisted log */
+  stored: number;
+  /** Index of the next event to replay */
+  idx: number;
+  /** Events consumed by the current replay */
+  consumed: StepEventWithContext[];
+  /** Consumed events that are not in the persisted log yet */
+  fresh: StepEventWithContext[];
+  /** Compensations of the captures replayed or recorded by the current replay */
+  compensations: Compensation[];
+  /**
+   * Position of the next random draw: the number of draws since the cursor
+   * was at `idx`, or since the saga iteration with the given number and value
+   * started.
+   */
+  draws: {
+    idx: number;
+    count: number;
+    iteration?: number;
+    value?: unknown;
+    salt?: string;
+  };
+  warnings: Warning[];
+  /** Set when the node was not executed because its checkpoint is still valid */
+  restored?: boolean;
+};
+
+/**
+ * The context handed to the compute and saga functions of a node.
+ * It replays the events of the node in order and interrupts the node when it
+ * runs out of events.
+ */
+export class NodeContext implements WorkflowContext {
+  constructor(
+    private run: RunState,
+    private exec: NodeExecution,
+  ) {}
+
+  get = <K extends string>(key: K): unknown => {
+    const result = this.run.results[key];
+    return result?.status === "done"
+      ? result.value
+      : result?.status === "intr"
+        ? result.value
+        : undefined;
+  };
+
+  step = <T>(context: StepContext<T>): T => {
+    const { exec } = this;
+    const fullKey = [...exec.keys, context.key];
+    const { deadline, onTimeout } = context;
+    if (deadline !== undefined && onTimeout !== undefined) {
+      const timeout = { key: `timeout:${context.key}`, schema: TimeoutSchema };
+      const timedOut = (): T => {
+        if (onTimeout !== "error") return onTimeout;
+        throw new StepTimeoutError(exec.keys[0], fullKey, deadline);
+      };
+      if (this.peek(timeout.key)) {
+        this.step(timeout);
+        // Values that arrive after the timeout are neither replayed nor recorded
+        _.remove(
+          exec.events,
+          (event, i) =>
+            i >= Math.max(exec.idx, exec.stored) && isEqual(event.k, fullKey),
+        );
+        return timedOut();
+      }
+      if (exec.idx >= exec.events.length) {
+        if (this.getNow() < deadline) {
+          throw new InputInterrupt({ ...context, key: fullKey }, deadline);
+        }
+        this.addTempEvent(timeout.key, null, timeout);
+        return timedOut();
+      }
+    }
+    if (exec.idx < exec.events.length) {
+      const stored = exec.idx < exec.stored;
+      const event = exec.events[exec.idx++];
+      if (isEqual(event.k, fullKey)) {
+        // Rejected events are not consumed. Recorded events were valid when
+        // they were recorded, so that tightening a schema keeps instances
+        // going, and events of this run, e.g. captured results, are not input
+        if (!stored && !("c" in event)) {
+          validateStep(fullKey, context.schema, event.v);
+        }
+        exec.consumed.push({
+          ...event,
+          c: context,
+        });
+        const eventInputKeys = event.i;
+        const currentInputKeys = context.inputs?.map((i) => i.key);
+
+        if (!_.isEqual(eventInputKeys, currentInputKeys)) {
+          exec.warnings.push({
+            type: "context_updated",
+            step: fullKey,
+            context,
+          });
+        }
+
+        return event.v as T;
+      }
+      exec.consumed.push({
+        ...event,
+        c: context,
+      });
+      throw new NonDeterminismError(
+        exec.keys[0],
+        fullKey,
+        event.k,
+        exec.idx - 1,
+      );
+    }
+    throw new InputInterrupt({
+      ...context,
+      key: fullKey,
+    });
+  };
+
+  /**
+   * Returns the next event to replay if it belongs to the given step.
+   */
+  private peek = (key: string): StepEvent | undefined => {
+    const event = this.exec.events[this.exec.idx];
+    return event && isEqual(event.k, [...this.exec.keys, key])
+      ? event
+      : undefined;
+  };
+
+  addTempEvent = (
+    key: string,
+    newEvent: unknown,
+    context: StepContext<unknown>,
+  ): StepEventWithContext => {
+    const event: StepEventWithContext = {
+      k: [...this.exec.keys, key],
+      v: newEvent,
+      c: context,
+      ts: this.getNow(),
+    };
+    this.exec.events.splice(this.exec.idx++, 0, event);
+    this.exec.consumed.push(event);
+    return event;
+  };
+
+  capture = <T>(
+    context: StepContext,
+    fn: (signal: AbortSignal) => T | Promise<T>,
+    options?: CaptureOptions<T>,
+  ): T => {
+    const stepKey = `capture:${context.key}`;
+    const failureContext = {
+      ...context,
+      key: `${stepKey}:failed`,
+      schema: CaptureFailureSchema,
+    };
+    const retry = options?.retry;
+    /** Records a failed attempt, unless it should not be retried */
+    const fail = (
+      attempt: number,
+      error: unknown,
+    ): StepEventWithContext | undefined => {
+      if (
+        !retry ||
+        attempt >= retry.attempts ||
+        (retry.retryOn && !retry.retryOn(error))
+      ) {
+        return undefined;
+      }
+      const { name, message } =
+        error instanceof Error ? error : new Error(String(error));
+      return this.addTempEvent(
+        failureContext.key,
+        { attempt, error: { name, message } },
+        failureContext,
+      );
+    };
+
+    for (let attempt = 1; ; attempt += 1) {
+      // Replay a failed attempt and wait out its backoff
+      const failure = retry && this.peek(failureContext.key);
+      if (failure) {
+        this.step(failureContext);
+        this.waitUntil(failure.ts + retryDelay(retry, attempt), {
+          key: `retry:${context.key}`,
+        });
+        continue;
+      }
+
+      try {
+        const value = this.step({ ...context, key: stepKey }) as T;
+        this.compensation(this.exec.events[this.exec.idx - 1], value, options);
+        return value;
+      } catch (e) {
+        if (!(e instanceof InputInterrupt) || this.run.replay) throw e;
+      }
+
+      // A cancelled run does not start new side effects
+      if (this.run.signal.aborted) throw this.run.signal.reason;
+      let newEvent: T | Promise<T>;
+      try {
+        newEvent = this.wrapCapture(stepKey, () => fn(this.run.signal));
+      } catch (error) {
+        const failure = fail(attempt, error);
+        if (!failure) {
+          throw new CaptureFailedError(
+            this.exec.keys[0],
+            [...this.exec.keys, stepKey],
+            attempt,
+            error,
+          );
+        }
+        this.waitUntil(failure.ts + retryDelay(retry!, attempt), {
+          key: `retry:${context.key}`,
+        });
+        continue;
+      }
+      if (newEvent instanceof Promise) {
+        throw new PromiseInterrupt(
+          stepKey,
+          newEvent,
+          context,
+          (error) => !!fail(attempt, error),
+          attempt,
+        );
+      }
+      const event = this.addTempEvent(stepKey, newEvent, context);
+      notify(this.run, "onCapture", {
+        node: this.exec.keys[0],
+        key: event.k,
+        value: newEvent,
+      });
+      this.compensation(event, newEvent, options);
+      return newEvent;
+    }
+  };
+
+  /**
+   * Wraps the call of a captured function in the `wrapCapture` of every
+   * interceptor, the first one being the outermost.
+   */
+  private wrapCapture = <T>(
+    stepKey: string,
+    call: () => T | Promise<T>,
+  ): T | Promise<T> => {
+    const info = { node: this.exec.keys[0], key: [...this.exec.keys, stepKey] };
+    return this.run.interceptors.reduceRight<() => T | Promise<T>>(
+      (next, interceptor) =>
+        interceptor.wrapCapture
+          ? () => interceptor.wrapCapture!(info, next)
+          : next,
+      call,
+    )();
+  };
+
+  /**
+   * Registers the compensation of a capture, if it has one.
+   */
+  private compensation = <T>(
+    event: StepEvent,
+    value: T,
+    options?: CaptureOptions<T>,
+  ): void => {
+    const compensate = options?.compensate;
+    if (!compensate) return;
+    this.exec.compensations.push({
+      key: event.k,
+      ts: event.ts,
+      compensate: () => compensate(value),
+    });
+  };
+
+  getNow = (): number => (this.run.opts.now ? this.run.opts.now() : Date.now());
+  now = (): number =>
+    this.capture({ key: "now", schema: NowSchema }, this.getNow);
+
+  sleep = (ms: number, context?: Partial<StepContext>): void => {
+    this.waitUntil(this.now() + ms, { key: "sleep", ...context });
+  };
+
+  waitUntil = (datetime: number, context?: Partial<StepContext>): void => {
+    if (this.getNow() < datetime)
+      throw new InputInterrupt(
+        {
+          schema: WaitSchema,
+          ...context,
+          key: [...this.exec.keys, "waitUntil"],
+        },
+        datetime,
+      );
+  };
+
+  version = (
+    changeId: string,
+    minSupported: number,
+    maxSupported: number,
+  ): number => {
+    const context = { key: `version:${changeId}`, schema: VersionSchema };
+    let version: number;
+    if (this.peek(context.key)) {
+      version = this.step<number>(context);
+    } else if (this.exec.idx < this.exec.stored) {
+      // The node got past this point before the change was made
+      version = DEFAULT_VERSION;
+    } else {
+      version = maxSupported;
+      this.addTempEvent(context.key, version, context);
+    }
+    if (version < minSupported || version > maxSupported) {
+      throw new Error(
+        `Unsupported version ${version} of ${changeId}, expected ${minSupported} to ${maxSupported}`,
+      );
+    }
+    return version;
+  };
+
+  waitForSignal = <T>(name: string, schema: { static: T }): T => {
+    const context = { key: `signal:${name}`, schema };
+    const { exec } = this;
+    // Replay the recorded signal, or take an incoming event for it. Incoming
+    // events of later steps leave the signal to the buffered ones
+    if (exec.idx < exec.stored || this.peek(context.key)) {
+      return this.step<T>(context);
+    }
+    const signal = this.run.signals[name]?.shift();
+    if (!signal) {
+      throw new InputInterrupt({
+        ...context,
+        key: [...exec.keys, context.key],
+      });
+    }
+    validateStep([...exec.keys, context.key], schema, signal.v);
+    this.addTempEvent(context.key, signal.v, context);
+    return signal.v as T;
+  };
+
+  random = (): number => {
+    // Instances from before seeded random recorded every draw
+    const legacy = { key: "capture:random", schema: RandomSchema };
+    if (this.peek(legacy.key)) return this.step<number>(legacy);
+    return this.draw();
+  };
+
+  randomInt = (min: number, max: number): number =>
+    Math.floor(this.random() * (max - min)) + min;
+
+  uuid = (): string => uuidFrom(this.random);
+
+  /**
+   * Draws a number from the seed of the run, that only depends on the
+   * position of the draw in the node, so that replays draw the same numbers
+   * without recording them.
+   */
+  private draw = (): number => {
+    const { exec } = this;
+    if (exec.draws.idx !== exec.idx) {
+      exec.draws = { idx: exec.idx, count: 0, iteration: exec.draws.iteration };
+    }
+    exec.draws.salt ??= JSON.stringify(exec.draws.value) ?? "";
+    this.run.random.used = true;
+    return hashToUnit(
+      [
+        this.run.random.seed,
+        ...this.run.prefix,
+        ...exec.keys,
+        exec.draws.iteration ?? 0,
+        exec.draws.idx,
+        exec.draws.count++,
+        exec.draws.salt,
+      ].join("\0"),
+    );
+  };
+}
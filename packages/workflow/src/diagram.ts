@@ -0,0 +1,134 @@
+import type { Result } from "./workflow";
+
+/**
+ * The parts of `Workflow.topology()` that are drawn.
+ */
+type DiagramNode = {
+  node: string;
+  dependencies: string[];
+  title?: string;
+  group?: string;
+  isSaga?: boolean;
+};
+
+type Results = Record<string, Result<unknown> | undefined>;
+
+type Status = Result<unknown>["status"];
+
+const STATUSES: Status[] = [
+  "done",
+  "intr",
+  "pending",
+  "err",
+  "cancelled",
+  "skipped",
+];
+
+/** Fill and stroke color of each status */
+const COLORS: Record<Status, [string, string]> = {
+  done: ["#dcfce7", "#16a34a"],
+  intr: ["#fef3c7", "#d97706"],
+  pending: ["#f3f4f6", "#9ca3af"],
+  err: ["#fee2e2", "#dc2626"],
+  cancelled: ["#e5e7eb", "#4b5563"],
+  skipped: ["#f9fafb", "#d1d5db"],
+};
+
+/**
+ * Groups the nodes by group, nodes without a group come first.
+ */
+const byGroup = (
+  nodes: DiagramNode[],
+): [string | undefined, DiagramNode[]][] => {
+  const groups = new Map<string | undefined, DiagramNode[]>([[undefined, []]]);
+  for (const node of nodes) {
+    groups.set(node.group, [...(groups.get(node.group) ?? []), node]);
+  }
+  return [...groups];
+};
+
+/**
+ * Renders the workflow graph as a Mermaid flowchart.
+ * Sagas are drawn as subroutines, and nodes are colored by their status if
+ * results are given. Nodes get generated ids, since keys may clash with
+ * Mermaid keywords, and are labelled with their title or key.
+ */
+export const toMermaid = (nodes: DiagramNode[], results?: Results): string => {
+  const ids = new Map(nodes.map(({ node }, i) => [node, `node${i}`]));
+  const quote = (s: string) => `"${s.replaceAll('"', "#quot;")}"`;
+  const label = ({ node, title }: DiagramNode) => quote(title ?? node);
+  const shape = (node: DiagramNode) =>
+    node.isSaga
+      ? `${ids.get(node.node)}[[${label(node)}]]`
+      : `${ids.get(node.node)}[${label(node)}]`;
+
+  const lines = ["flowchart TD"];
+  byGroup(nodes).forEach(([group, members], i) => {
+    if (group === undefined) {
+      lines.push(...members.map((node) => `  ${shape(node)}`));
+      return;
+    }
+    lines.push(`  subgraph group${i} [${quote(group)}]`);
+    lines.push(...members.map((node) => `    ${shape(node)}`));
+    lines.push("  end");
+  });
+  for (const { node, dependencies } of nodes) {
+    for (const dep of dependencies) {
+      lines.push(`  ${ids.get(dep)} --> ${ids.get(node)}`);
+    }
+  }
+  if (results) {
+    for (const status of STATUSES) {
+      const members = nodes.filter(
+        ({ node }) => (results[node]?.status ?? "pending") === status,
+      );
+      if (members.length === 0) continue;
+      const [fill, stroke] = COLORS[status];
+      lines.push(`  classDef ${status} fill:${fill},stroke:${stroke}`);
+      lines.push(
+        `  class ${members.map(({ node }) => ids.get(node)).join(",")} ${status}`,
+      );
+    }
+  }
+  return lines.join("\n");
+};
+
+/**
+ * Renders the workflow graph in the Graphviz DOT language.
+ * Groups are drawn as clusters, sagas with a double border, and nodes are
+ * colored by their status if results are given.
+ */
+export const toDot = (nodes: DiagramNode[], results?: Results): string => {
+  const quote = (s: string) => JSON.stringify(s);
+  const statement = (node: DiagramNode) => {
+    const attributes = [`label=${quote(node.title ?? node.node)}`];
+    if (node.isSaga) attributes.push("peripheries=2");
+    if (results) {
+      const [fill, stroke] = COLORS[results[node.node]?.status ?? "pending"];
+      attributes.push(`fillcolor=${quote(fill)}`, `color=${quote(stroke)}`);
+    }
+    return `${quote(node.node)} [${attributes.join(", ")}];`;
+  };
+
+  const lines = [
+    "digraph workflow {",
+    '  node [shape=box, style="rounded,filled", fillcolor="white"];',
+  ];
+  byGroup(nodes).forEach(([group, members], i) => {
+    if (group === undefined) {
+      lines.push(...members.map((node) => `  ${statement(node)}`));
+      return;
+    }
+    lines.push(`  subgraph cluster_${i} {`);
+    lines.push(`    label=${quote(group)};`);
+    lines.push(...members.map((node) => `    ${statement(node)}`));
+    lines.push("  }");
+  });
+  for (const { node, dependencies } of nodes) {
+    for (const dep of dependencies) {
+      lines.push(`  ${quote(dep)} -> ${quote(node)};`);
+    }
+  }
+  lines.push("}");
+  return lines.join("\n");
+};
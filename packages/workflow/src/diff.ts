@@ -0,0 +1,77 @@
+import _ from "lodash";
+import type { Result, StepEvent } from "./workflow";
+
+/**
+ * The outcome of a run to compare, e.g. returned by `dryRun()` or `replay()`.
+ */
+export type RunOutcome = {
+  values: Record<string, Result<unknown> | undefined>;
+  /** The events consumed by the run */
+  newEvents: StepEvent[];
+};
+
+/**
+ * The differences between two runs, see `diffRuns`.
+ */
+export type RunDiff = {
+  /** Nodes whose status or value differs, with their result in each run */
+  nodes: {
+    node: string;
+    a?: Result<unknown>;
+    b?: Result<unknown>;
+  }[];
+  /** Nodes that consumed different events, with their events in each run */
+  events: {
+    node: string;
+    a: StepEvent[];
+    b: StepEvent[];
+  }[];
+};
+
+/** The parts of a result that are compared */
+const outcome = (result?: Result<unknown>) => {
+  switch (result?.status) {
+    case "done":
+    case "intr":
+      return [result.status, result.value];
+    case "err":
+      return [result.status, result.error.name, result.error.message];
+    default:
+      return [result?.status];
+  }
+};
+
+/** The parts of an event that are compared, timestamps are ignored */
+const consumed = ({ k, v, i }: StepEvent) => ({ k, v, i });
+
+/**
+ * Compares two runs of the same workflow, e.g. two replays of an instance at
+ * different points of its history, or the replays of two instances.
+ *
+ * @param a - The first run.
+ * @param b - The second run.
+ * @returns The nodes whose status or value changed, and the nodes that consumed different events.
+ */
+export const diffRuns = (a: RunOutcome, b: RunOutcome): RunDiff => {
+  const nodes = _.union(Object.keys(a.values), Object.keys(b.values));
+  const eventsA = _.groupBy(a.newEvents, (e) => e.k[0]);
+  const eventsB = _.groupBy(b.newEvents, (e) => e.k[0]);
+  return {
+    nodes: nodes
+      .filter(
+        (node) => !_.isEqual(outcome(a.values[node]), outcome(b.values[node])),
+      )
+      .map((node) => ({
+        node,
+        ...(a.values[node] ? { a: a.values[node] } : {}),
+        ...(b.values[node] ? { b: b.values[node] } : {}),
+      })),
+    events: _.union(Object.keys(eventsA), Object.keys(eventsB))
+      .map((node) => ({
+        node,
+        a: eventsA[node] ?? [],
+        b: eventsB[node] ?? [],
+      }))
+      .filter((diff) => !_.isEqual(diff.a.map(consumed), diff.b.map(consumed))),
+  };
+};
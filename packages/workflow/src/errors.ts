@@ -0,0 +1,217 @@
+/**
+ * A single schema violation found while validating a step value.
+ */
+export type ValidationIssue = {
+  /** JSON pointer to the invalid part of the value */
+  path: string;
+  /** Human readable description of the violation */
+  message: string;
+};
+
+/**
+ * The JSON form of a `WorkflowError`: its name, message and structured fields.
+ */
+export type WorkflowErrorJSON = {
+  name: string;
+  message: string;
+  [field: string]: unknown;
+};
+
+/**
+ * Base class of the errors raised by workflows. Errors serialize to JSON with
+ * their structured fields, so that they survive persistence inside
+ * `Result.err` and can be matched by `name` or revived with `fromJSON`.
+ */
+export class WorkflowError extends Error {
+  toJSON(): WorkflowErrorJSON {
+    const { cause } = this;
+    return {
+      ...Object.fromEntries(Object.entries(this)),
+      name: this.name,
+      message: this.message,
+      ...(cause !== undefined
+        ? {
+            cause:
+              cause instanceof WorkflowError
+                ? cause.toJSON()
+                : cause instanceof Error
+                  ? { name: cause.name, message: cause.message }
+                  : cause,
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Revives an error serialized by `toJSON`, as an instance of the matching
+   * error class, or of `Error` if the name is not a workflow error.
+   */
+  static fromJSON(json: WorkflowErrorJSON): Error {
+    const type = ERRORS[json.name] ?? Error;
+    return Object.assign(Object.create(type.prototype) as Error, json);
+  }
+}
+
+/**
+ * Raised when a node asks for a different step than the one recorded next in
+ * its event log, usually because its code changed in a way that is not guarded
+ * by `version`.
+ */
+export class NonDeterminismError extends WorkflowError {
+  constructor(
+    /** Key of the node that diverged */
+    public node: string,
+    /** Full key path of the step the node asked for */
+    public step: string[],
+    /** Full key path of the recorded event */
+    public event: string[],
+    /** Index of the recorded event in the event log of the node */
+    public eventIdx: number,
+  ) {
+    super(
+      `Expected event ${step} but got ${event} instead (node ${node}, event ${eventIdx})`,
+    );
+    this.name = "NonDeterminismError";
+  }
+}
+
+/**
+ * Raised when the value of a step event does not match the schema of the step.
+ * The offending event is rejected and not consumed into the event log.
+ */
+export class StepValidationError extends WorkflowError {
+  constructor(
+    /** Full key path of the step */
+    public step: string[],
+    /** The schema violations, one per invalid path */
+    public errors: ValidationIssue[],
+  ) {
+    super(
+      `Invalid value for step ${step}: ${errors
+        .map((e) => `${e.path || "/"} ${e.message}`)
+        .join(", ")}`,
+    );
+    this.name = "StepValidationError";
+  }
+}
+
+/**
+ * Raised by `Workflow.run` when the run takes longer than `RunOptions.timeout`.
+ * It is also the abort reason of the signal passed to captured functions.
+ */
+export class WorkflowTimeoutError extends WorkflowError {
+  constructor(
+    /** The timeout of the run in milliseconds */
+    public timeout: number,
+  ) {
+    super("Timeout");
+    this.name = "WorkflowTimeoutError";
+  }
+}
+
+/**
+ * Raised when a node awaits more captured promises than allowed in a single
+ * run, which usually means that it captures in an endless loop.
+ */
+export class PromiseLimitError extends WorkflowError {
+  constructor(
+    /** Key of the node */
+    public node: string,
+    /** Full key path of the last captured step */
+    public step: string[],
+    /** The maximum number of promises per node and run */
+    public limit: number,
+  ) {
+    super(
+      `Too many promises in a single step! (node ${node}, step ${step}, limit ${limit})`,
+    );
+    this.name = "PromiseLimitError";
+  }
+}
+
+/**
+ * Raised when a run starts while the same instance is still running.
+ */
+export class AlreadyRunningError extends WorkflowError {
+  constructor(
+    /** The id of the instance, if it is attached to a store */
+    public id?: string,
+  ) {
+    super(
+      id ? `Workflow ${id} is already running` : "Workflow is already running",
+    );
+    this.name = "AlreadyRunningError";
+  }
+}
+
+/**
+ * Raised when a captured function fails and is not retried, either because it
+ * has no retry policy or because its attempts are exhausted. The error of the
+ * function is the `cause`.
+ */
+export class CaptureFailedError extends WorkflowError {
+  constructor(
+    /** Key of the node */
+    public node: string,
+    /** Full key path of the capture step */
+    public step: string[],
+    /** Number of attempts made, including the failed one */
+    public attempts: number,
+    cause: unknown,
+  ) {
+    super(
+      `Capture ${step} failed after ${attempts} attempt${attempts === 1 ? "" : "s"}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      { cause },
+    );
+    this.name = "CaptureFailedError";
+  }
+}
+
+/**
+ * Raised when the deadline of a step with `onTimeout: "error"` passes before
+ * the step gets a value.
+ */
+export class StepTimeoutError extends WorkflowError {
+  constructor(
+    /** Key of the node */
+    public node: string,
+    /** Full key path of the step */
+    public step: string[],
+    /** The deadline of the step */
+    public deadline: number,
+  ) {
+    super(`Step ${step} timed out at ${deadline}`);
+    this.name = "StepTimeoutError";
+  }
+}
+
+/**
+ * Raised by `Workflow.migrate` when the dry run of the migrated event log
+ * fails, in which case the log of the instance is left untouched.
+ */
+export class MigrationError extends WorkflowError {
+  constructor(
+    /** What is wrong with the migrated log, one entry per node */
+    public issues: { node: string; message: string }[],
+  ) {
+    super(
+      `Invalid migration: ${issues
+        .map(({ node, message }) => `${node}: ${message}`)
+        .join(", ")}`,
+    );
+    this.name = "MigrationError";
+  }
+}
+
+const ERRORS: Record<string, { prototype: Error } | undefined> = {
+  NonDeterminismError,
+  StepValidationError,
+  WorkflowTimeoutError,
+  PromiseLimitError,
+  AlreadyRunningError,
+  CaptureFailedError,
+  StepTimeoutError,
+  MigrationError,
+};
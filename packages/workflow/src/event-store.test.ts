@@ -0,0 +1,152 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  type EventStore,
+  FileEventStore,
+  InMemoryEventStore,
+  type InstanceRecord,
+  WorkflowBuilder,
+  parse,
+  t,
+} from ".";
+import sumSaga from "../examples/sum-saga";
+
+const twoSteps = WorkflowBuilder.create()
+  .addNode({ key: "sum", schema: t.Number() }, ({ step }) => {
+    const a = parse(t.Number(), step({ key: "a", schema: t.Number() }));
+    const b = parse(t.Number(), step({ key: "b", schema: t.Number() }));
+    return a + b;
+  })
+  .build();
+
+const dir = await mkdtemp(join(tmpdir(), "rezza-workflow-"));
+afterAll(() => rm(dir, { recursive: true, force: true }));
+
+describe.each<[string, () => EventStore]>([
+  ["InMemoryEventStore", () => new InMemoryEventStore()],
+  ["FileEventStore", () => new FileEventStore(dir)],
+])("%s", (name, createStore) => {
+  test("rehydrates events across instances", async () => {
+    const store = createStore();
+    const id = `${name}-two-steps`;
+    const w1 = await twoSteps.rehydrate(store, id);
+    await w1.run([{ k: ["sum", "a"], v: 1, ts: Date.now() }]);
+
+    const w2 = await twoSteps.rehydrate(store, id);
+    const res2 = await w2.run([{ k: ["sum", "b"], v: 2, ts: Date.now() }]);
+    expect(res2.sum?.status === "done" && res2.sum.value).toBe(3);
+
+    const w3 = await twoSteps.rehydrate(store, id);
+    const res3 = await w3.run();
+    expect(res3.sum?.status === "done" && res3.sum.value).toBe(3);
+    expect((await store.load(id))?.events.map((e) => e.k)).toEqual([
+      ["sum", "a"],
+      ["sum", "b"],
+    ]);
+  });
+
+  test("rehydrates saga snapshots", async () => {
+    const store = createStore();
+    const id = `${name}-saga`;
+    const numbers = (firstNumber: number, secondNumber: number) => ({
+      k: ["input", "numbers"],
+      v: { firstNumber, secondNumber },
+      ts: Date.now(),
+    });
+    await (await sumSaga.rehydrate(store, id)).run([numbers(1, 2)]);
+    await (await sumSaga.rehydrate(store, id)).run([numbers(3, 4)]);
+    expect(Object.keys((await store.load(id))?.snapshots ?? {})).toEqual([
+      "input",
+    ]);
+
+    const res = await (await sumSaga.rehydrate(store, id)).run();
+    expect(res.sum?.status === "done" && res.sum.value).toBe(7);
+  });
+
+  test("persists the due-time index", async () => {
+    const store = createStore();
+    await store.saveTimer("a", 100);
+    await store.saveTimer("b", 200);
+    await store.saveTimer("a", 300);
+    await store.saveTimer("b", undefined);
+    expect(await store.loadTimers()).toEqual({ a: 300 });
+  });
+
+  test("persists the instance index", async () => {
+    const store = createStore();
+    const record = (status: InstanceRecord["status"]): InstanceRecord => ({
+      workflow: "order",
+      version: 1,
+      status,
+      groups: {},
+      waitingOn: [],
+      createdAt: 0,
+      updatedAt: 0,
+    });
+    await store.saveInstance("a", record("intr"));
+    await store.saveInstance("b", record("intr"));
+    await store.saveInstance("a", record("done"));
+    await store.saveInstance("b", undefined);
+    expect(await store.loadInstances()).toEqual({ a: record("done") });
+  });
+
+  test("replaces instances", async () => {
+    const store = createStore();
+    const id = `${name}-replaced`;
+    await (await twoSteps.rehydrate(store, id)).run([
+      { k: ["sum", "a"], v: 1, ts: Date.now() },
+    ]);
+    await store.replace(id, { events: [], snapshots: { sum: [0, 1, "h"] } });
+    expect(await store.load(id)).toEqual({
+      events: [],
+      snapshots: { sum: [0, 1, "h"] },
+    });
+  });
+
+  test("deletes instances", async () => {
+    const store = createStore();
+    const id = `${name}-deleted`;
+    await (await twoSteps.rehydrate(store, id)).run([
+      { k: ["sum", "a"], v: 1, ts: Date.now() },
+    ]);
+    await store.delete(id);
+    expect(await store.load(id)).toBeUndefined();
+  });
+});
+
+describe("FileEventStore", () => {
+  test("drops an incomplete last line", async () => {
+    const store = new FileEventStore(dir);
+    const a = { k: ["sum", "a"], v: 1, ts: 0 };
+    const b = { k: ["sum", "b"], v: 2, ts: 0 };
+    await store.append("torn", [a]);
+    await appendFile(join(dir, "torn.jsonl"), '{"e":{"k":["sum"');
+    expect(await store.load("torn")).toEqual({ events: [a], snapshots: {} });
+
+    await store.append("torn", [b]);
+    expect((await store.load("torn"))?.events).toEqual([a, b]);
+  });
+
+  test("drops outdated lines of the indexes when loading them", async () => {
+    const store = new FileEventStore(join(dir, "indexes"));
+    for (let at = 0; at < 5; at++) await store.saveTimer("a", at);
+    await store.saveTimer("b", 10);
+    await store.saveTimer("c", 20);
+    await store.saveTimer("c", undefined);
+    expect(await store.loadTimers()).toEqual({ a: 4, b: 10 });
+
+    const lines = await readFile(join(dir, "indexes", "$timers.jsonl"), "utf8");
+    expect(lines.split("\n").filter(Boolean)).toHaveLength(2);
+    expect(await store.loadTimers()).toEqual({ a: 4, b: 10 });
+  });
+});
+
+test("run does not append replayed events twice", async () => {
+  const workflow = twoSteps.spawn();
+  await workflow.run([{ k: ["sum", "a"], v: 1, ts: Date.now() }]);
+  await workflow.run([{ k: ["sum", "b"], v: 2, ts: Date.now() }]);
+  const res = await workflow.run();
+  expect(res.sum?.status === "done" && res.sum.value).toBe(3);
+});
@@ -0,0 +1,401 @@
+import _ from "lodash";
+import type { InboxEntry } from "./inbox";
+import type { GroupStatus, StepEvent } from "./workflow";
+
+/**
+ * A saga snapshot: the index of the event cursor at the start of the last
+ * saga iteration, the value of the node at that point, and the number of that
+ * iteration. Or a checkpoint of a node that is done: the number of events it
+ * consumed, its value, and a hash of the values of its dependencies.
+ */
+export type Snapshot =
+  | [number, unknown]
+  | [number, unknown, number]
+  | [number, unknown, string];
+
+/**
+ * The persisted state of a single workflow instance.
+ */
+export type StoredInstance = {
+  /** All consumed events of the instance, in the order they were appended. */
+  events: StepEvent[];
+  /** The latest snapshot or checkpoint of each node. */
+  snapshots: Record<string, Snapshot>;
+};
+
+/**
+ * An entry of the instance index used by the `WorkflowRegistry`, updated
+ * after every run of an instance.
+ */
+export type InstanceRecord = {
+  /** Name of the workflow definition */
+  workflow: string;
+  /** Version of the workflow definition */
+  version: number;
+  /** Status of the instance after its latest run */
+  status: GroupStatus["status"];
+  /** Status of each group after the latest run */
+  groups: Record<string, GroupStatus["status"]>;
+  /** The inputs, signals and timers the instance waits for */
+  waitingOn: Pick<InboxEntry, "node" | "kind" | "key">[];
+  /** Set once the instance is archived, it is no longer run then */
+  archived?: boolean;
+  /** When the instance was created */
+  createdAt: number;
+  /** When the instance was last run */
+  updatedAt: number;
+};
+
+/**
+ * A durable storage backend for workflow event logs and saga snapshots.
+ *
+ * `Workflow.run()` appends the events consumed during a run to the store of
+ * an attached instance, and `Workflow.rehydrate()` rebuilds an instance from
+ * it, so that instances survive process restarts.
+ */
+export interface EventStore {
+  /**
+   * Loads the persisted state of an instance.
+   *
+   * @param id - The instance id.
+   * @returns The stored state, or `undefined` if the instance is unknown.
+   */
+  load(id: string): Promise<StoredInstance | undefined>;
+
+  /**
+   * Appends newly consumed events to the event log of an instance.
+   *
+   * @param id - The instance id.
+   * @param events - The events to append, in order.
+   */
+  append(id: string, events: StepEvent[]): Promise<void>;
+
+  /**
+   * Replaces the saga snapshots of an instance.
+   *
+   * @param id - The instance id.
+   * @param snapshots - The latest snapshot of each node.
+   */
+  saveSnapshots(id: string, snapshots: Record<string, Snapshot>): Promise<void>;
+
+  /**
+   * Replaces the whole persisted state of an instance, e.g. after compaction.
+   *
+   * @param id - The instance id.
+   * @param instance - The new state of the instance.
+   */
+  replace(id: string, instance: StoredInstance): Promise<void>;
+
+  /**
+   * Removes an instance and all of its events.
+   *
+   * @param id - The instance id.
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Loads the due-time index used by the `TimerService`.
+   *
+   * @returns The time each waiting instance is due at, by instance id.
+   */
+  loadTimers(): Promise<Record<string, number>>;
+
+  /**
+   * Updates the due-time index used by the `TimerService`.
+   *
+   * @param id - The instance id.
+   * @param dueAt - The time the instance is due at, or `undefined` to remove it.
+   */
+  saveTimer(id: string, dueAt: number | undefined): Promise<void>;
+
+  /**
+   * Loads the instance index used by the `WorkflowRegistry`.
+   *
+   * @returns The record of each registered instance, by instance id.
+   */
+  loadInstances(): Promise<Record<string, InstanceRecord>>;
+
+  /**
+   * Updates the instance index used by the `WorkflowRegistry`.
+   *
+   * @param id - The instance id.
+   * @param record - The new record of the instance, or `undefined` to remove it.
+   */
+  saveInstance(id: string, record: InstanceRecord | undefined): Promise<void>;
+}
+
+/**
+ * An event store that keeps everything in memory.
+ * Useful for tests and for short-lived processes.
+ */
+export class InMemoryEventStore implements EventStore {
+  private instances = new Map<string, StoredInstance>();
+  private timers = new Map<string, number>();
+  private records = new Map<string, InstanceRecord>();
+
+  async load(id: string): Promise<StoredInstance | undefined> {
+    const instance = this.instances.get(id);
+    if (!instance) return undefined;
+    return {
+      events: [...instance.events],
+      snapshots: { ...instance.snapshots },
+    };
+  }
+
+  async append(id: string, events: StepEvent[]): Promise<void> {
+    this.get(id).events.push(...events);
+  }
+
+  async saveSnapshots(
+    id: string,
+    snapshots: Record<string, Snapshot>,
+  ): Promise<void> {
+    this.get(id).snapshots = { ...snapshots };
+  }
+
+  async replace(id: string, instance: StoredInstance): Promise<void> {
+    this.instances.set(id, {
+      events: [...instance.events],
+      snapshots: { ...instance.snapshots },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.instances.delete(id);
+  }
+
+  async loadTimers(): Promise<Record<string, number>> {
+    return Object.fromEntries(this.timers);
+  }
+
+  async saveTimer(id: string, dueAt: number | undefined): Promise<void> {
+    if (dueAt === undefined) this.timers.delete(id);
+    else this.timers.set(id, dueAt);
+  }
+
+  async loadInstances(): Promise<Record<string, InstanceRecord>> {
+    return _.cloneDeep(Object.fromEntries(this.records));
+  }
+
+  async saveInstance(
+    id: string,
+    record: InstanceRecord | undefined,
+  ): Promise<void> {
+    if (record === undefined) this.records.delete(id);
+    else this.records.set(id, _.cloneDeep(record));
+  }
+
+  private get(id: string): StoredInstance {
+    let instance = this.instances.get(id);
+    if (!instance) {
+      instance = { events: [], snapshots: {} };
+      this.instances.set(id, instance);
+    }
+    return instance;
+  }
+}
+
+type FileRecord = { e: StepEvent } | { s: Record<string, Snapshot> };
+
+type TimerRecord = { id: string; at: number | null };
+
+type IndexRecord = { id: string; r: InstanceRecord | null };
+
+const TIMERS_FILE = "$timers.jsonl";
+
+const INSTANCES_FILE = "$instances.jsonl";
+
+/**
+ * An event store that persists each instance as an append-only JSON Lines file
+ * inside a local directory.
+ *
+ * Each line is either an event (`{"e": ...}`) or a full set of snapshots
+ * (`{"s": ...}`); when loading, the last set of snapshots wins. The due-time
+ * index of the `TimerService` is kept the same way in `$timers.jsonl`, and the
+ * instance index of the `WorkflowRegistry` in `$instances.jsonl`. Both indexes
+ * are rewritten without their outdated lines when they are loaded.
+ *
+ * An incomplete last line, left by a crash in the middle of a write, is
+ * dropped when the file is read. Operations on the same file are run one at a
+ * time, so a single store should own the directory.
+ * Node.js modules are imported lazily, so that the rest of the package stays
+ * usable in other runtimes.
+ */
+export class FileEventStore implements EventStore {
+  /** The last operation on each file */
+  private queues = new Map<string, Promise<unknown>>();
+
+  /**
+   * @param dir - The directory holding the instance files. Created on first write.
+   */
+  constructor(private dir: string) {}
+
+  load(id: string): Promise<StoredInstance | undefined> {
+    return this.exclusive(this.file(id), async () => {
+      const records = await this.read<FileRecord>(this.file(id));
+      if (!records) return undefined;
+      const instance: StoredInstance = { events: [], snapshots: {} };
+      for (const record of records) {
+        if ("e" in record) instance.events.push(record.e);
+        else instance.snapshots = record.s;
+      }
+      return instance;
+    });
+  }
+
+  append(id: string, events: StepEvent[]): Promise<void> {
+    return this.exclusive(this.file(id), () =>
+      this.write<FileRecord>(
+        this.file(id),
+        events.map((e) => ({ e })),
+      ),
+    );
+  }
+
+  saveSnapshots(
+    id: string,
+    snapshots: Record<string, Snapshot>,
+  ): Promise<void> {
+    return this.exclusive(this.file(id), () =>
+      this.write<FileRecord>(this.file(id), [{ s: snapshots }]),
+    );
+  }
+
+  replace(id: string, instance: StoredInstance): Promise<void> {
+    return this.exclusive(this.file(id), () =>
+      this.rewrite<FileRecord>(this.file(id), [
+        ...instance.events.map((e) => ({ e })),
+        { s: instance.snapshots },
+      ]),
+    );
+  }
+
+  delete(id: string): Promise<void> {
+    return this.exclusive(this.file(id), async () => {
+      const { rm } = await import("node:fs/promises");
+      const { join } = await import("node:path");
+      await rm(join(this.dir, this.file(id)), { force: true });
+    });
+  }
+
+  loadTimers(): Promise<Record<string, number>> {
+    return this.loadIndex<number, "at">(TIMERS_FILE, "at");
+  }
+
+  saveTimer(id: string, dueAt: number | undefined): Promise<void> {
+    return this.exclusive(TIMERS_FILE, () =>
+      this.write<TimerRecord>(TIMERS_FILE, [{ id, at: dueAt ?? null }]),
+    );
+  }
+
+  loadInstances(): Promise<Record<string, InstanceRecord>> {
+    return this.loadIndex<InstanceRecord, "r">(INSTANCES_FILE, "r");
+  }
+
+  saveInstance(id: string, record: InstanceRecord | undefined): Promise<void> {
+    return this.exclusive(INSTANCES_FILE, () =>
+      this.write<IndexRecord>(INSTANCES_FILE, [{ id, r: record ?? null }]),
+    );
+  }
+
+  private file(id: string): string {
+    return `${encodeURIComponent(id)}.jsonl`;
+  }
+
+  /**
+   * Runs `fn` once the previous operation on `file` has settled.
+   */
+  private exclusive<R>(file: string, fn: () => Promise<R>): Promise<R> {
+    const result = (this.queues.get(file) ?? Promise.resolve()).then(
+      () => fn(),
+      () => fn(),
+    );
+    this.queues.set(
+      file,
+      result.catch(() => undefined),
+    );
+    return result;
+  }
+
+  /**
+   * Folds an index file into the latest value of each id, where `null`
+   * removes the id, and drops the outdated lines once they outnumber the
+   * latest ones.
+   */
+  private loadIndex<V, F extends string>(
+    file: string,
+    field: F,
+  ): Promise<Record<string, V>> {
+    type Entry = { id: string } & Record<F, V | null>;
+    return this.exclusive(file, async () => {
+      const records = (await this.read<Entry>(file)) ?? [];
+      const index: Record<string, V> = {};
+      for (const record of records) {
+        const value = record[field];
+        if (value === null) delete index[record.id];
+        else index[record.id] = value;
+      }
+      const ids = Object.keys(index);
+      if (records.length > 2 * ids.length) {
+        await this.rewrite(
+          file,
+          ids.map((id) => ({ id, [field]: index[id] })),
+        );
+      }
+      return index;
+    });
+  }
+
+  private async read<R>(file: string): Promise<R[] | undefined> {
+    const { readFile, truncate } = await import("node:fs/promises");
+    const { join } = await import("node:path");
+    let content: string;
+    try {
+      content = await readFile(join(this.dir, file), "utf8");
+    } catch (e) {
+      if ((e as { code?: string }).code === "ENOENT") return undefined;
+      throw e;
+    }
+    const end = content.lastIndexOf("\n") + 1;
+    if (end < content.length) {
+      // Drop the incomplete line, so that the next write starts a new one
+      content = content.slice(0, end);
+      await truncate(
+        join(this.dir, file),
+        new TextEncoder().encode(content).length,
+      );
+    }
+    return content
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as R);
+  }
+
+  private async write<R>(file: string, records: R[]): Promise<void> {
+    if (records.length === 0) return;
+    const { appendFile, mkdir } = await import("node:fs/promises");
+    const { join } = await import("node:path");
+    await mkdir(this.dir, { recursive: true });
+    await appendFile(
+      join(this.dir, file),
+      records.map((r) => `${JSON.stringify(r)}\n`).join(""),
+    );
+  }
+
+  /**
+   * Replaces the content of a file: writes a new file next to the old one,
+   * and swaps them atomically.
+   */
+  private async rewrite<R>(file: string, records: R[]): Promise<void> {
+    const { rename, rm } = await import("node:fs/promises");
+    const { join } = await import("node:path");
+    const tmp = `${file}.tmp`;
+    await rm(join(this.dir, tmp), { force: true });
+    if (records.length === 0) {
+      await rm(join(this.dir, file), { force: true });
+      return;
+    }
+    await this.write<R>(tmp, records);
+    await rename(join(this.dir, tmp), join(this.dir, file));
+  }
+}
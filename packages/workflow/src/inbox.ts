@@ -0,0 +1,106 @@
+import type { FullStepContext, StepInput } from "./types";
+import type { Result, StepEvent } from "./workflow";
+
+type Entry = {
+  /** The node that is waiting */
+  node: string;
+  /** Full key path of the step */
+  key: string[];
+  title?: string;
+  description?: string;
+};
+
+/**
+ * Something an instance is waiting for, see `Workflow.inbox`.
+ */
+export type InboxEntry = Entry &
+  (
+    | {
+        /** An input for a step, or a signal for `waitForSignal` */
+        kind: "input" | "signal";
+        /** The name of the signal, for signals */
+        signal?: string;
+        /** Inputs shown with the step */
+        inputs: StepInput[];
+        /** Schema of the value to submit */
+        schema: object;
+        /** When the input is due, if the step has a deadline */
+        deadline?: number;
+        /** The event to submit, without its value `v` and timestamp `ts` */
+        event: Pick<StepEvent, "k" | "i">;
+      }
+    | {
+        /** A timer, the instance resumes once it is due */
+        kind: "timer";
+        /** When the timer is due */
+        waitUntil: number;
+      }
+  );
+
+const entry = (
+  node: string,
+  result: Result<unknown> & { status: "intr" },
+): InboxEntry => {
+  const {
+    key,
+    title,
+    description,
+    inputs = [],
+    schema,
+    deadline,
+  } = result.step as FullStepContext;
+  const common = {
+    node,
+    key,
+    ...(title !== undefined ? { title } : {}),
+    ...(description !== undefined ? { description } : {}),
+  };
+  // Steps with a timeout wait for both their value and their deadline
+  if (
+    "waitUntil" in result &&
+    result.waitUntil !== undefined &&
+    !("onTimeout" in result.step)
+  ) {
+    return { ...common, kind: "timer", waitUntil: result.waitUntil };
+  }
+  const step = key[key.length - 1];
+  const signal = step.startsWith("signal:") ? step.slice(7) : undefined;
+  return {
+    ...common,
+    kind: signal === undefined ? "input" : "signal",
+    ...(signal !== undefined ? { signal } : {}),
+    inputs,
+    schema,
+    ...(deadline !== undefined ? { deadline } : {}),
+    event: {
+      k: key,
+      ...(inputs.length > 0 ? { i: inputs.map((input) => input.key) } : {}),
+    },
+  };
+};
+
+/**
+ * Collects the interrupts of the given results, including the interrupted
+ * items of map nodes, sorted by due time. Entries without a due time come
+ * last, in the given node order.
+ */
+export const collectInbox = (
+  order: string[],
+  results: Record<string, Result<unknown> | undefined>,
+): InboxEntry[] => {
+  const entries: InboxEntry[] = [];
+  for (const node of order) {
+    const result = results[node];
+    if (result?.status !== "intr") continue;
+    const interrupts = result.items?.filter((r) => r.status === "intr") ?? [
+      result,
+    ];
+    for (const interrupt of interrupts) {
+      if (interrupt.status === "intr") entries.push(entry(node, interrupt));
+    }
+  }
+  const due = (e: InboxEntry) =>
+    (e.kind === "timer" ? e.waitUntil : e.deadline) ?? Number.POSITIVE_INFINITY;
+  // Array.prototype.sort is stable, so ties keep the node order
+  return entries.sort((a, b) => (due(a) === due(b) ? 0 : due(a) - due(b)));
+};
@@ -1,3 +1,11 @@
+export * from "./diff";
+export * from "./errors";
+export * from "./event-store";
+export type { InboxEntry } from "./inbox";
+export * from "./migration";
+export * from "./registry";
+export * from "./test-env";
+export * from "./timer-service";
 export * from "./types";
 export * from "./workflow";
 export * from "./workflow-builder";
@@ -0,0 +1,97 @@
+import type { StepEvent } from "./workflow";
+
+/**
+ * A single change of an event log, see `migrateEvents`. Steps are matched by
+ * their node and their key as recorded, e.g. `capture:charge` for a capture.
+ */
+export type Migration =
+  | {
+      /** Moves all events of a node to a new node key */
+      renameNode: { from: string; to: string };
+    }
+  | {
+      /** Renames a step of a node */
+      renameStep: { node: string; from: string; to: string };
+    }
+  | {
+      /** Removes the events of a step, e.g. after the step was removed from the code */
+      dropStep: { node: string; step: string };
+    }
+  | {
+      /** Rewrites the recorded values of a step, e.g. after its schema changed */
+      transformValue: {
+        node: string;
+        step: string;
+        transform: (value: unknown, event: StepEvent) => unknown;
+      };
+    };
+
+/** Streams whose events refer to the key path of a step after their own key */
+const STEP_STREAMS = ["$compensated"];
+
+const isStep = (k: string[], node: string, step: string) =>
+  k[0] === node && k.length > 1 && k[k.length - 1] === step;
+
+/**
+ * Applies a single migration to the key path and value of an event.
+ * Returns `undefined` if the event is dropped.
+ */
+const apply = (
+  migration: Migration,
+  event: StepEvent,
+): StepEvent | undefined => {
+  const { k } = event;
+  if ("renameNode" in migration) {
+    const { from, to } = migration.renameNode;
+    return k[0] === from ? { ...event, k: [to, ...k.slice(1)] } : event;
+  }
+  if ("renameStep" in migration) {
+    const { node, from, to } = migration.renameStep;
+    return isStep(k, node, from)
+      ? { ...event, k: [...k.slice(0, -1), to] }
+      : event;
+  }
+  if ("dropStep" in migration) {
+    const { node, step } = migration.dropStep;
+    return isStep(k, node, step) ? undefined : event;
+  }
+  const { node, step, transform } = migration.transformValue;
+  return isStep(k, node, step)
+    ? { ...event, v: transform(event.v, event) }
+    : event;
+};
+
+/**
+ * Migrates an event log to a new workflow definition, e.g. after a node or a
+ * step was renamed. The migrations are applied in order, to every event.
+ * References to steps in system streams, like recorded compensations, are
+ * migrated as well, but their values are kept.
+ *
+ * Use `Workflow.migrate` to validate the migrated log with a dry run before
+ * it replaces the log of an instance.
+ *
+ * @param events - The events to migrate, e.g. `workflow.history()`.
+ * @param migrations - The changes to apply.
+ * @returns The migrated events, in the same order.
+ */
+export const migrateEvents = (
+  events: StepEvent[],
+  migrations: Migration[],
+): StepEvent[] =>
+  events.flatMap((event) => {
+    let migrated: StepEvent | undefined = event;
+    for (const migration of migrations) {
+      if (!migrated) break;
+      if (STEP_STREAMS.includes(migrated.k[0])) {
+        const [stream, ...key]: string[] = migrated.k;
+        const step: StepEvent | undefined = apply(migration, {
+          ...migrated,
+          k: key,
+        });
+        migrated = step && { ...migrated, k: [stream, ...step.k] };
+      } else {
+        migrated = apply(migration, migrated);
+      }
+    }
+    return migrated ? [migrated] : [];
+  });
@@ -0,0 +1,48 @@
+/**
+ * Hashes a string into a 53-bit integer, using cyrb53.
+ *
+ * @param input - The string to hash.
+ * @returns A non-negative safe integer.
+ */
+export const hash53 = (input: string): number => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+/**
+ * Hashes a string into a number between 0 (inclusive) and 1 (exclusive).
+ *
+ * @param input - The string to hash.
+ * @returns A number that is uniformly distributed over [0, 1).
+ */
+export const hashToUnit = (input: string): number => hash53(input) / 2 ** 53;
+
+/**
+ * Formats 16 random bytes as a version 4 UUID.
+ *
+ * @param draw - Returns a random number between 0 (inclusive) and 1 (exclusive).
+ * @returns A UUID such as `"0f8fad5b-d9cb-469f-a165-70867728950e"`.
+ */
+export const uuidFrom = (draw: () => number): string => {
+  const bytes = Array.from({ length: 16 }, () => Math.floor(draw() * 256));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = bytes.map((b) => b.toString(16).padStart(2, "0")).join("");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+};
@@ -0,0 +1,171 @@
+import { describe, expect, test } from "bun:test";
+import {
+  InMemoryEventStore,
+  TimerService,
+  WorkflowBuilder,
+  WorkflowRegistry,
+  t,
+} from ".";
+
+const HOUR = 60 * 60 * 1000;
+
+const orderV1 = WorkflowBuilder.create()
+  .addGroup("review")
+  .addNode(
+    { key: "approve", group: "review", schema: t.Boolean() },
+    ({ step }) => step({ key: "approved", schema: t.Boolean() }),
+  )
+  .addNode(
+    { key: "ship", deps: ["approve"], schema: t.String() },
+    ({ waitForSignal }) => waitForSignal("shipped", t.String()),
+  )
+  .build();
+
+const orderV2 = WorkflowBuilder.create()
+  .addGroup("review")
+  .addNode({ key: "approve", group: "review", schema: t.Boolean() }, () => true)
+  .addNode(
+    { key: "ship", deps: ["approve"], schema: t.Number() },
+    ({ sleep, now }) => {
+      sleep(HOUR);
+      return now();
+    },
+  )
+  .build();
+
+const createRegistry = (store = new InMemoryEventStore(), now = () => 0) =>
+  new WorkflowRegistry({ store, now })
+    .register("order", 1, orderV1)
+    .register("order", 2, orderV2);
+
+describe("WorkflowRegistry", () => {
+  test("creates instances of the latest version", async () => {
+    const registry = createRegistry();
+    const { id, results } = await registry.create("order", { id: "o-1" });
+    expect(id).toBe("o-1");
+    expect(results.ship).toMatchObject({ status: "intr", waitUntil: HOUR });
+    expect(await registry.list()).toEqual([
+      {
+        id: "o-1",
+        workflow: "order",
+        version: 2,
+        status: "intr",
+        groups: { review: "done" },
+        waitingOn: [
+          { node: "ship", kind: "timer", key: ["ship", "waitUntil"] },
+        ],
+        createdAt: 0,
+        updatedAt: 0,
+      },
+    ]);
+  });
+
+  test("submits events to instances", async () => {
+    const registry = createRegistry();
+    const { id } = await registry.create("order", { version: 1 });
+    await registry.create("order", { id: "o-2", version: 1 });
+    expect(
+      (await registry.list({ waitingOn: ["approve", "approved"] })).length,
+    ).toBe(2);
+
+    await registry.submit(id, [{ k: ["approve", "approved"], v: true, ts: 0 }]);
+    const waiting = await registry.list({ waitingOn: "signal" });
+    expect(waiting.map((r) => r.id)).toEqual([id]);
+    expect(
+      (await registry.list({ group: "review", status: "done" })).map(
+        (r) => r.id,
+      ),
+    ).toEqual([id]);
+
+    const results = await registry.submit(id, [
+      { k: ["ship", "signal:shipped"], v: "DHL", ts: 0 },
+    ]);
+    expect(results.ship).toEqual({ status: "done", value: "DHL" });
+    expect((await registry.list({ status: "done" })).map((r) => r.id)).toEqual([
+      id,
+    ]);
+  });
+
+  test("loads instances from the store", async () => {
+    const store = new InMemoryEventStore();
+    await createRegistry(store).create("order", { id: "o-1", version: 1 });
+    await createRegistry(store).submit("o-1", [
+      { k: ["approve", "approved"], v: false, ts: 0 },
+    ]);
+
+    const registry = createRegistry(store);
+    const instance = await registry.get("o-1");
+    const results = await instance.run();
+    expect(results.approve).toEqual({ status: "done", value: false });
+    expect(await registry.list({ waitingOn: "signal" })).toMatchObject([
+      { id: "o-1", version: 1 },
+    ]);
+  });
+
+  test("archives instances", async () => {
+    const store = new InMemoryEventStore();
+    const registry = createRegistry(store);
+    await registry.create("order", { id: "o-1" });
+    expect(await store.loadTimers()).toEqual({});
+
+    await registry.archive("o-1");
+    expect(await registry.list()).toEqual([]);
+    expect(await registry.list({ archived: true })).toMatchObject([
+      { id: "o-1", archived: true },
+    ]);
+    await expect(registry.submit("o-1")).rejects.toThrow(
+      "Workflow instance o-1 is archived",
+    );
+  });
+
+  test("resumes timers with a timer service", async () => {
+    const store = new InMemoryEventStore();
+    let now = 0;
+    const registry = createRegistry(store, () => now);
+    const timers = new TimerService({
+      store,
+      now: () => now,
+      load: async (id) => ({ run: (events) => registry.submit(id, events) }),
+    });
+    const { id, results } = await registry.create("order");
+    await timers.track(id, results);
+
+    now = HOUR;
+    expect(await timers.tick()).toEqual([id]);
+    expect(await registry.list({ status: "done" })).toMatchObject([
+      { id, updatedAt: HOUR },
+    ]);
+  });
+
+  test("rejects unknown definitions and instances", async () => {
+    const registry = createRegistry();
+    expect(() => registry.register("order", 1, orderV1)).toThrow(
+      "Workflow order version 1 is already registered",
+    );
+    await expect(registry.create("invoice")).rejects.toThrow(
+      "Unknown workflow invoice",
+    );
+    await expect(registry.create("order", { version: 3 })).rejects.toThrow(
+      "Unknown workflow order version 3",
+    );
+    await expect(registry.get("o-1")).rejects.toThrow(
+      "Unknown workflow instance o-1",
+    );
+    await registry.create("order", { id: "o-1" });
+    await expect(registry.create("order", { id: "o-1" })).rejects.toThrow(
+      "Workflow instance o-1 already exists",
+    );
+  });
+
+  test("does not keep an instance whose first run failed", async () => {
+    const registry = createRegistry();
+    await expect(
+      registry.create("order", { id: "o-1", run: { concurrency: 0 } }),
+    ).rejects.toThrow();
+    await expect(registry.get("o-1")).rejects.toThrow(
+      "Unknown workflow instance o-1",
+    );
+    const { results } = await registry.create("order", { id: "o-1" });
+    expect(results.approve).toEqual({ status: "done", value: true });
+  });
+});
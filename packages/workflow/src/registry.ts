@@ -0,0 +1,269 @@
+import _ from "lodash";
+import type { EventStore, InstanceRecord } from "./event-store";
+import type { DAGNode } from "./types";
+import type { Result, RunOptions, StepEvent, Workflow } from "./workflow";
+
+/**
+ * Results of a workflow run, by node key.
+ */
+type Results = Record<string, Result<unknown> | undefined>;
+
+type Definition = Workflow<Record<string, DAGNode<unknown, string>>, string>;
+
+export type WorkflowRegistryOptions = {
+  /** Persists the instances and the instance index */
+  store: EventStore;
+  /** The clock used for the timestamps of the index and for runs. Defaults to `Date.now` */
+  now?: () => number;
+};
+
+/**
+ * Filters the instances of `WorkflowRegistry.list`. All given filters must match.
+ */
+export type InstanceFilter = {
+  /** Name of the workflow definition */
+  workflow?: string;
+  /** Status of the instance, or of `group` if given */
+  status?: InstanceRecord["status"];
+  /** Only instances of definitions that have this group */
+  group?: string;
+  /** The kind of inbox entry, or the full key path of a step, the instance waits for */
+  waitingOn?: InstanceRecord["waitingOn"][number]["kind"] | string[];
+  /** Lists the archived instances instead of the active ones */
+  archived?: boolean;
+};
+
+/**
+ * Holds workflow definitions by name and version, and their instances by id.
+ *
+ * Instances are persisted in the event store, and an index of their status
+ * and of what they wait for is updated after every run, so that instances
+ * can be listed without being loaded.
+ *
+ * @example
+ * ```typescript
+ * const registry = new WorkflowRegistry({ store })
+ *   .register("order", 1, orderWorkflow);
+ * const { id } = await registry.create("order");
+ * await registry.submit(id, [{ k: ["review", "approve"], v: true, ts: Date.now() }]);
+ * const waiting = await registry.list({ waitingOn: "input" });
+ *
+ * const timers = new TimerService({
+ *   store,
+ *   load: async (id) => ({ run: (events) => registry.submit(id, events) }),
+ * });
+ * ```
+ */
+export class WorkflowRegistry {
+  private definitions = new Map<string, Map<number, Definition>>();
+  private instances = new Map<string, Definition>();
+  private records?: Promise<Record<string, InstanceRecord>>;
+
+  constructor(private opts: WorkflowRegistryOptions) {}
+
+  now = (): number => (this.opts.now ? this.opts.now() : Date.now());
+
+  /**
+   * Registers a version of a workflow definition.
+   *
+   * @param name - The name of the definition.
+   * @param version - The version, new instances use the latest one.
+   * @param workflow - Any instance of the workflow, e.g. returned by `build()`.
+   * @returns This registry.
+   * @throws If the version is already registered.
+   */
+  register(name: string, version: number, workflow: Definition): this {
+    const versions = this.definitions.get(name) ?? new Map();
+    if (versions.has(version)) {
+      throw new Error(
+        `Workflow ${name} version ${version} is already registered`,
+      );
+    }
+    versions.set(version, workflow);
+    this.definitions.set(name, versions);
+    return this;
+  }
+
+  /**
+   * Creates an instance of a registered workflow and runs it once.
+   *
+   * @param name - The name of the definition.
+   * @param opts - The id of the instance defaults to a random UUID, the version to the latest one.
+   * @returns The id of the instance and the results of its first run.
+   * @throws If the definition is unknown or the id is already taken.
+   */
+  async create(
+    name: string,
+    opts: {
+      id?: string;
+      version?: number;
+      events?: StepEvent[];
+      run?: RunOptions;
+    } = {},
+  ): Promise<{ id: string; results: Results }> {
+    const version = opts.version ?? this.latestVersion(name);
+    const definition = this.definition(name, version);
+    const id = opts.id ?? crypto.randomUUID();
+    if ((await this.index())[id]) {
+      throw new Error(`Workflow instance ${id} already exists`);
+    }
+    const instance = await definition.rehydrate(this.opts.store, id);
+    const now = this.now();
+    const results = await this.runInstance(
+      id,
+      instance,
+      { workflow: name, version, createdAt: now },
+      opts.events,
+      opts.run,
+    );
+    // An instance whose first run failed is not indexed, so it is not cached
+    this.instances.set(id, instance);
+    return { id, results };
+  }
+
+  /**
+   * Loads an instance, from the store if it is not loaded yet.
+   *
+   * @param id - The instance id.
+   * @returns The instance, attached to the store.
+   * @throws If the instance is unknown.
+   */
+  async get(id: string): Promise<Definition> {
+    const cached = this.instances.get(id);
+    if (cached) return cached;
+    const record = await this.record(id);
+    const definition = this.definition(record.workflow, record.version);
+    const instance = await definition.rehydrate(this.opts.store, id);
+    this.instances.set(id, instance);
+    return instance;
+  }
+
+  /**
+   * Submits events to an instance and runs it, e.g. the answers to its inbox
+   * or nothing to resume its timers.
+   *
+   * @param id - The instance id.
+   * @param events - The events to submit.
+   * @param opts - Options of the run.
+   * @returns The results of the run.
+   * @throws If the instance is unknown or archived.
+   */
+  async submit(
+    id: string,
+    events: StepEvent[] = [],
+    opts?: RunOptions,
+  ): Promise<Results> {
+    const record = await this.record(id);
+    if (record.archived) {
+      throw new Error(`Workflow instance ${id} is archived`);
+    }
+    const instance = await this.get(id);
+    return this.runInstance(id, instance, record, events, opts);
+  }
+
+  /**
+   * Lists the instances from the index, without loading them.
+   *
+   * @param filter - Only instances that match all filters are listed.
+   * @returns The index records of the matching instances, oldest first.
+   */
+  async list(
+    filter: InstanceFilter = {},
+  ): Promise<(InstanceRecord & { id: string })[]> {
+    const { workflow, status, group, waitingOn, archived = false } = filter;
+    const records = Object.entries(await this.index()).map(([id, record]) => ({
+      id,
+      ...record,
+    }));
+    return _.sortBy(
+      records.filter(
+        (record) =>
+          (record.archived ?? false) === archived &&
+          (workflow === undefined || record.workflow === workflow) &&
+          (group === undefined || group in record.groups) &&
+          (status === undefined ||
+            (group === undefined ? record.status : record.groups[group]) ===
+              status) &&
+          (waitingOn === undefined ||
+            record.waitingOn.some((entry) =>
+              typeof waitingOn === "string"
+                ? entry.kind === waitingOn
+                : _.isEqual(entry.key, waitingOn),
+            )),
+      ),
+      (record) => record.createdAt,
+    );
+  }
+
+  /**
+   * Archives an instance: it is no longer run or listed by default, and its
+   * timer is removed from the due-time index. Its events are kept.
+   *
+   * @param id - The instance id.
+   * @throws If the instance is unknown.
+   */
+  async archive(id: string): Promise<void> {
+    const record = await this.record(id);
+    this.instances.delete(id);
+    await this.save(id, { ...record, archived: true, updatedAt: this.now() });
+    await this.opts.store.saveTimer(id, undefined);
+  }
+
+  private latestVersion(name: string): number {
+    const versions = this.definitions.get(name);
+    if (!versions?.size) throw new Error(`Unknown workflow ${name}`);
+    return Math.max(...versions.keys());
+  }
+
+  private definition(name: string, version: number): Definition {
+    const definition = this.definitions.get(name)?.get(version);
+    if (!definition) {
+      throw new Error(`Unknown workflow ${name} version ${version}`);
+    }
+    return definition;
+  }
+
+  private index(): Promise<Record<string, InstanceRecord>> {
+    this.records ??= this.opts.store.loadInstances();
+    return this.records;
+  }
+
+  private async record(id: string): Promise<InstanceRecord> {
+    const record = (await this.index())[id];
+    if (!record) throw new Error(`Unknown workflow instance ${id}`);
+    return record;
+  }
+
+  private async save(id: string, record: InstanceRecord): Promise<void> {
+    (await this.index())[id] = record;
+    await this.opts.store.saveInstance(id, record);
+  }
+
+  /**
+   * Runs an instance and updates its index record with the results.
+   */
+  private async runInstance(
+    id: string,
+    instance: Definition,
+    record: Pick<InstanceRecord, "workflow" | "version" | "createdAt">,
+    events: StepEvent[] = [],
+    opts?: RunOptions,
+  ): Promise<Results> {
+    const results = await instance.run(events, {
+      ...(this.opts.now ? { now: this.opts.now } : {}),
+      ...opts,
+    });
+    await this.save(id, {
+      workflow: record.workflow,
+      version: record.version,
+      status: instance.status(results).status,
+      groups: _.mapValues(instance.groupStatus(results), (g) => g.status),
+      waitingOn: instance
+        .inbox(results)
+        .map(({ node, kind, key }) => ({ node, kind, key })),
+      createdAt: record.createdAt,
+      updatedAt: this.now(),
+    });
+    return results;
+  }
+}
@@ -1,4 +1,18 @@
-import type { TLiteral, TNull, TNumber } from "@sinclair/typebox";
+import type {
+  Static,
+  TArray,
+  TInteger,
+  TLiteral,
+  TNull,
+  TNumber,
+  TObject,
+  TOptional,
+  TRecord,
+  TString,
+  TTuple,
+  TUnion,
+  TUnknown,
+} from "@sinclair/typebox";
 import { Type } from "@sinclair/typebox";
 
 /**
@@ -37,3 +51,120 @@ export const RandomSchema: TNumber = Type.Number({
   title: "Random Number",
   description: `Pseudo-random number that's greater than or equal to 0 and less than 1.`,
 });
+
+/**
+ * Schema representing the code version chosen for a change.
+ * Recorded by `version` the first time a node reaches the change.
+ */
+export const VersionSchema: TInteger = Type.Integer({
+  title: "Version",
+  description: "Version of the code path taken for a change",
+});
+
+/**
+ * Version of changes that were made before an instance started recording
+ * versions, i.e. the original code path.
+ */
+export const DEFAULT_VERSION = 0 as const;
+
+/**
+ * Schema representing a step whose deadline passed before it got a value.
+ * Recorded when a step with `onTimeout` times out.
+ */
+export const TimeoutSchema: TNull = Type.Null({
+  title: "Timeout",
+  description: "The deadline of the step passed",
+});
+
+/**
+ * Schema representing the seed of the random numbers of an instance.
+ */
+export const SeedSchema: TString = Type.String({
+  title: "Seed",
+  description: "Seed of the random numbers drawn by the nodes",
+});
+
+/**
+ * Schema representing a failed attempt of a captured function.
+ * Recorded when a `capture` with a retry policy fails.
+ */
+export const CaptureFailureSchema: TObject<{
+  attempt: TNumber;
+  error: TObject<{ name: TString; message: TString }>;
+}> = Type.Object(
+  {
+    attempt: Type.Number({ description: "Number of the failed attempt" }),
+    error: Type.Object({ name: Type.String(), message: Type.String() }),
+  },
+  { title: "Failed Attempt" },
+);
+
+/**
+ * Schema of a persisted step event, as exported by `Workflow.toJSON()`.
+ */
+export const StepEventSchema: TObject<{
+  k: TArray<TString>;
+  v: TUnknown;
+  ts: TNumber;
+  i: TOptional<TArray<TArray<TString>>>;
+}> = Type.Object({
+  k: Type.Array(Type.String(), { description: "Full key path of the step" }),
+  v: Type.Unknown({ description: "Value of the step" }),
+  ts: Type.Number({ description: "Milliseconds since the epoch" }),
+  i: Type.Optional(
+    Type.Array(Type.Array(Type.String()), {
+      description: "Keys of the inputs displayed for the step",
+    }),
+  ),
+});
+
+/**
+ * Current version of the format produced by `Workflow.toJSON()`.
+ */
+export const WORKFLOW_STATE_VERSION = 1 as const;
+
+/**
+ * Schema of the serialized state of a workflow instance: the per-node event
+ * logs and the snapshots. Validated by `Workflow.restore()`.
+ */
+export const WorkflowStateSchema: TObject<{
+  version: TLiteral<typeof WORKFLOW_STATE_VERSION>;
+  id: TOptional<TString>;
+  events: TRecord<TString, TArray<typeof StepEventSchema>>;
+  snapshots: TRecord<
+    TString,
+    TUnion<
+      [
+        TTuple<[TNumber, TUnknown]>,
+        TTuple<[TNumber, TUnknown, TNumber]>,
+        TTuple<[TNumber, TUnknown, TString]>,
+      ]
+    >
+  >;
+}> = Type.Object(
+  {
+    version: Type.Literal(WORKFLOW_STATE_VERSION),
+    id: Type.Optional(Type.String({ description: "Id of the instance" })),
+    events: Type.Record(Type.String(), Type.Array(StepEventSchema), {
+      description: "Consumed events of each node",
+    }),
+    snapshots: Type.Record(
+      Type.String(),
+      Type.Union([
+        Type.Tuple([Type.Number(), Type.Unknown()]),
+        Type.Tuple([Type.Number(), Type.Unknown(), Type.Number()]),
+        Type.Tuple([Type.Number(), Type.Unknown(), Type.String()]),
+      ]),
+      {
+        description:
+          "Event cursor, value and iteration of each saga node, and the dependency hash of checkpoints",
+      },
+    ),
+  },
+  { title: "Workflow State" },
+);
+
+/**
+ * The serialized state of a workflow instance.
+ */
+export type WorkflowState = Static<typeof WorkflowStateSchema>;
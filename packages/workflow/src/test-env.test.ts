@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import { WorkflowBuilder, WorkflowTestEnv, parse, t } from ".";
+
+const HOUR = 60 * 60 * 1000;
+
+const orderWorkflow = WorkflowBuilder.create()
+  .addNode({ key: "review", schema: t.String() }, ({ step }) =>
+    step({
+      key: "approve",
+      schema: t.String(),
+      deadline: 48 * HOUR,
+      onTimeout: "auto-approved",
+    }),
+  )
+  .addNode(
+    { key: "reminder", deps: ["review"], schema: t.Number() },
+    ({ sleep, now }) => {
+      sleep(HOUR);
+      return now();
+    },
+  )
+  .addNode(
+    { key: "shipping", deps: ["reminder"], schema: t.String() },
+    ({ waitForSignal }) => waitForSignal("shipped", t.String()),
+  )
+  .build();
+
+describe("WorkflowTestEnv", () => {
+  test("submits scripted responses and resumes due timers", async () => {
+    const env = new WorkflowTestEnv(orderWorkflow.spawn());
+    env
+      .respond(["review", "approve"], "approved")
+      .respond((entry) => entry.kind === "signal", "DHL");
+
+    await env.runUntilIdle();
+    env.expectDone("review", "approved");
+    expect(env.results.reminder?.status).toBe("intr");
+    env.expectPending();
+
+    await env.advanceTime(HOUR);
+    env.expectDone("reminder", HOUR);
+    env.expectDone("shipping", "DHL");
+  });
+
+  test("skips time past step deadlines", async () => {
+    const env = new WorkflowTestEnv(orderWorkflow.spawn(), { now: 1_000 });
+    await env.runUntilIdle();
+    env.expectPending(["review", "approve"]);
+    expect(() => env.expectDone("review")).toThrow(
+      "Expected node review to be done but it is intr",
+    );
+
+    await env.advanceTime(48 * HOUR);
+    env.expectDone("review", "auto-approved");
+    await env.advanceTime(HOUR);
+    env.expectPending(["shipping", "signal:shipped"]);
+    expect(() => env.expectPending()).toThrow(
+      'Expected pending steps [] but got [["shipping","signal:shipped"]]',
+    );
+  });
+
+  test("uses every response once", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "sum", schema: t.Number() }, ({ step }) => {
+        const a = parse(t.Number(), step({ key: "a", schema: t.Number() }));
+        const b = parse(t.Number(), step({ key: "b", schema: t.Number() }));
+        return a + b;
+      })
+      .build();
+    const env = new WorkflowTestEnv(workflow.spawn())
+      .respond((entry) => entry.node === "sum", 1)
+      .respond((entry) => entry.node === "sum", 2);
+
+    await env.runUntilIdle();
+    env.expectDone("sum", 3);
+    expect(env.workflow.toJSON().events.sum?.map((e) => e.ts)).toEqual([0, 0]);
+  });
+});
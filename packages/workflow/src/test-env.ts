@@ -0,0 +1,188 @@
+import _ from "lodash";
+import type { InboxEntry } from "./inbox";
+import { nextWakeUp } from "./timer-service";
+import type { DAGNode } from "./types";
+import type { Result, RunOptions, StepEvent, Workflow } from "./workflow";
+
+type Results<T extends Record<string, DAGNode<unknown, string>>> = {
+  [K in keyof T]?: Result<T[K]["value"]>;
+};
+
+/**
+ * Selects the inputs a scripted response is submitted to: either the full key
+ * path of the step, or a predicate on the inbox entry.
+ */
+export type InputMatcher = string[] | ((entry: InboxEntry) => boolean);
+
+type Response = { matcher: InputMatcher; value: unknown };
+
+const matches = (matcher: InputMatcher, entry: InboxEntry): boolean =>
+  typeof matcher === "function"
+    ? matcher(entry)
+    : _.isEqual(matcher, entry.key);
+
+/**
+ * A harness for testing workflows: runs an instance on a virtual clock,
+ * submits scripted responses to the inputs it waits for, and resumes its
+ * timers when the clock is advanced past them.
+ *
+ * @example
+ * ```typescript
+ * const env = new WorkflowTestEnv(workflow.spawn());
+ * env.respond(["review", "approve"], true);
+ * await env.runUntilIdle();
+ * env.expectPending(["shipping", "signal:shipped"]);
+ * await env.advanceTime(48 * 60 * 60 * 1000);
+ * ```
+ */
+export class WorkflowTestEnv<
+  T extends Record<string, DAGNode<unknown, string>>,
+  G extends string = string,
+> {
+  /** Current time of the virtual clock, in milliseconds since the epoch */
+  now: number;
+  /** Results of the latest run */
+  results: Results<T> = {};
+  private responses: Response[] = [];
+
+  constructor(
+    /** The instance under test */
+    public workflow: Workflow<T, G>,
+    private opts: {
+      /** Start time of the virtual clock, defaults to 0 */
+      now?: number;
+      /** Options of every run, the clock is always the virtual one */
+      run?: Omit<RunOptions, "now">;
+      /** Maximum number of runs of `runUntilIdle`, defaults to 100 */
+      maxRuns?: number;
+    } = {},
+  ) {
+    this.now = opts.now ?? 0;
+  }
+
+  /**
+   * Scripts a response: the next input or signal that matches is submitted
+   * `value`. Every response is submitted once, in the order they were added.
+   *
+   * @param matcher - The full key path of the step, or a predicate on the inbox entry.
+   * @param value - The value to submit.
+   * @returns This environment.
+   */
+  respond(matcher: InputMatcher, value: unknown): this {
+    this.responses.push({ matcher, value });
+    return this;
+  }
+
+  /**
+   * Runs the instance once at the current time of the virtual clock.
+   *
+   * @param events - Events to submit with the run.
+   * @returns The results of the run.
+   */
+  async run(events: StepEvent[] = []): Promise<Results<T>> {
+    this.results = await this.workflow.run(events, {
+      ...this.opts.run,
+      now: () => this.now,
+    });
+    return this.results;
+  }
+
+  /**
+   * Runs the instance until it waits for something that is not scripted:
+   * scripted responses are submitted to the inputs they match, and due
+   * timers are resumed, without advancing the clock.
+   *
+   * @returns The results of the last run.
+   * @throws If the instance is still busy after `maxRuns` runs.
+   */
+  async runUntilIdle(): Promise<Results<T>> {
+    let events: StepEvent[] = [];
+    for (let runs = 0; runs < (this.opts.maxRuns ?? 100); runs++) {
+      await this.run(events);
+      events = this.scriptedEvents();
+      const wakeUp = nextWakeUp(this.results);
+      if (events.length === 0 && (wakeUp === undefined || wakeUp > this.now)) {
+        return this.results;
+      }
+    }
+    throw new Error(
+      `Workflow is not idle after ${this.opts.maxRuns ?? 100} runs`,
+    );
+  }
+
+  /**
+   * Advances the virtual clock and runs the instance until it is idle, so
+   * that the timers that became due are resumed.
+   *
+   * @param ms - The time to skip, in milliseconds.
+   * @returns The results of the last run.
+   */
+  async advanceTime(ms: number): Promise<Results<T>> {
+    this.now += ms;
+    return this.runUntilIdle();
+  }
+
+  /**
+   * Lists what the instance waits for after the latest run.
+   */
+  pending(): InboxEntry[] {
+    return this.workflow.inbox(this.results);
+  }
+
+  /**
+   * Asserts that the instance waits for exactly the given inputs and signals,
+   * in any order. Timers are not taken into account.
+   *
+   * @param keys - The full key paths of the pending steps.
+   * @throws If other steps are pending.
+   */
+  expectPending(...keys: string[][]): void {
+    const pending = this.pending()
+      .filter((entry) => entry.kind !== "timer")
+      .map((entry) => entry.key);
+    const sort = (k: string[][]) => _.sortBy(k, (key) => JSON.stringify(key));
+    if (!_.isEqual(sort(pending), sort(keys))) {
+      throw new Error(
+        `Expected pending steps ${JSON.stringify(keys)} but got ${JSON.stringify(pending)}`,
+      );
+    }
+  }
+
+  /**
+   * Asserts that a node is done, and optionally that it has the given value.
+   *
+   * @param node - The key of the node.
+   * @param value - The expected value, compared deeply.
+   * @throws If the node is not done or has another value.
+   */
+  expectDone<K extends keyof T>(node: K, ...value: [] | [T[K]["value"]]): void {
+    const result = this.results[node];
+    if (result?.status !== "done") {
+      throw new Error(
+        `Expected node ${String(node)} to be done but it is ${result?.status ?? "not run"}`,
+      );
+    }
+    if (value.length > 0 && !_.isEqual(result.value, value[0])) {
+      throw new Error(
+        `Expected node ${String(node)} to be ${JSON.stringify(value[0])} but got ${JSON.stringify(result.value)}`,
+      );
+    }
+  }
+
+  /**
+   * Takes the scripted responses that match the pending inputs and signals.
+   */
+  private scriptedEvents(): StepEvent[] {
+    const events: StepEvent[] = [];
+    for (const entry of this.pending()) {
+      if (entry.kind === "timer") continue;
+      const idx = this.responses.findIndex(({ matcher }) =>
+        matches(matcher, entry),
+      );
+      if (idx === -1) continue;
+      const [{ value }] = this.responses.splice(idx, 1);
+      events.push({ ...entry.event, v: value, ts: this.now });
+    }
+    return events;
+  }
+}
@@ -0,0 +1,176 @@
+import { describe, expect, test } from "bun:test";
+import {
+  InMemoryEventStore,
+  TimerService,
+  WorkflowBuilder,
+  nextWakeUp,
+  t,
+} from ".";
+
+const napWorkflow = WorkflowBuilder.create()
+  .addNode({ key: "nap", schema: t.Number() }, ({ sleep, step }) => {
+    const duration = step<number>({ key: "duration", schema: t.Number() });
+    sleep(duration);
+    return duration;
+  })
+  .build();
+
+describe("TimerService", () => {
+  const setup = () => {
+    const store = new InMemoryEventStore();
+    let current = 0;
+    const clock = {
+      now: () => current,
+      set: (time: number) => {
+        current = time;
+      },
+    };
+    const resumed: [string, string | undefined][] = [];
+    const createService = () =>
+      new TimerService({
+        store,
+        now: clock.now,
+        load: (id) => napWorkflow.rehydrate(store, id),
+        onResult: (id, results) => {
+          resumed.push([id, results.nap?.status]);
+        },
+      });
+    const start = async (
+      id: string,
+      duration: number,
+      timers: TimerService,
+    ) => {
+      const instance = await napWorkflow.rehydrate(store, id);
+      const results = await instance.run(
+        [{ k: ["nap", "duration"], v: duration, ts: clock.now() }],
+        { now: clock.now },
+      );
+      await timers.track(id, results);
+    };
+    return { store, clock, resumed, createService, start };
+  };
+
+  test("resumes instances in due order", async () => {
+    const { clock, resumed, createService, start } = setup();
+    const timers = createService();
+    await start("long", 300, timers);
+    await start("short", 100, timers);
+    expect(timers.next()).toBe(100);
+
+    expect(await timers.tick()).toEqual([]);
+    clock.set(150);
+    expect(await timers.tick()).toEqual(["short"]);
+    clock.set(300);
+    expect(await timers.tick()).toEqual(["long"]);
+    expect(resumed).toEqual([
+      ["short", "done"],
+      ["long", "done"],
+    ]);
+    expect(timers.next()).toBeUndefined();
+  });
+
+  test("survives restarts through the persisted index", async () => {
+    const { store, clock, resumed, createService, start } = setup();
+    await start("a", 100, createService());
+    expect(await store.loadTimers()).toEqual({ a: 100 });
+
+    const restarted = createService();
+    await restarted.restore();
+    clock.set(100);
+    expect(await restarted.tick()).toEqual(["a"]);
+    expect(resumed).toEqual([["a", "done"]]);
+    expect(await store.loadTimers()).toEqual({});
+  });
+
+  test("replaces the timer of a rescheduled instance", async () => {
+    const { clock, createService } = setup();
+    const timers = createService();
+    await timers.schedule("a", 100);
+    await timers.schedule("a", 500);
+    clock.set(200);
+    expect(await timers.tick()).toEqual([]);
+    expect(timers.next()).toBe(500);
+  });
+
+  test("keeps resuming instances after an error without onError", async () => {
+    const { store, clock, resumed, start } = setup();
+    const timers = new TimerService({
+      store,
+      now: clock.now,
+      pollInterval: 5,
+      load: async (id) => {
+        if (id === "broken") throw new Error("load failed");
+        return napWorkflow.rehydrate(store, id);
+      },
+      onResult: (id, results) => {
+        resumed.push([id, results.nap?.status]);
+      },
+    });
+    await start("broken", 100, timers);
+    await start("a", 150, timers);
+    clock.set(200);
+    await timers.start();
+    for (let i = 0; i < 100 && resumed.length === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    timers.stop();
+    expect(resumed).toEqual([["a", "done"]]);
+    expect(await store.loadTimers()).toEqual({ broken: 100 });
+  });
+
+  test("retries a failed instance after the poll interval", async () => {
+    const { store, clock, resumed, start } = setup();
+    const errors: string[] = [];
+    let loads = 0;
+    const timers = new TimerService({
+      store,
+      now: clock.now,
+      pollInterval: 50,
+      load: async (id) => {
+        loads += 1;
+        if (loads === 1) throw new Error("load failed");
+        return napWorkflow.rehydrate(store, id);
+      },
+      onResult: (id, results) => {
+        resumed.push([id, results.nap?.status]);
+      },
+      onError: (id) => {
+        errors.push(id);
+      },
+    });
+    await start("a", 100, timers);
+    clock.set(200);
+    expect(await timers.tick()).toEqual(["a"]);
+    expect(errors).toEqual(["a"]);
+    expect(timers.next()).toBe(250);
+    expect(await timers.tick()).toEqual([]);
+
+    clock.set(250);
+    expect(await timers.tick()).toEqual(["a"]);
+    expect(resumed).toEqual([["a", "done"]]);
+    expect(await store.loadTimers()).toEqual({});
+  });
+
+  test("ignores start() while already started", async () => {
+    const { clock, resumed, createService, start } = setup();
+    const timers = createService();
+    await Promise.all([timers.start(), timers.start()]);
+    timers.stop();
+
+    await start("a", 100, timers);
+    clock.set(100);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(resumed).toEqual([]);
+    expect(timers.next()).toBe(100);
+  });
+
+  test("nextWakeUp picks the earliest waitUntil", () => {
+    expect(
+      nextWakeUp({
+        a: { status: "intr", step: { key: ["a"], schema: {} }, waitUntil: 20 },
+        b: { status: "intr", step: { key: ["b"], schema: {} }, waitUntil: 10 },
+        c: { status: "done", value: 1 },
+      }),
+    ).toBe(10);
+  });
+});
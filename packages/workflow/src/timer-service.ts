@@ -0,0 +1,235 @@
+import { Heap } from "heap-js";
+import type { EventStore } from "./event-store";
+import type { Result, RunOptions, StepEvent } from "./workflow";
+
+/**
+ * Results of a workflow run, by node key.
+ */
+type Results = Record<string, Result<unknown> | undefined>;
+
+/**
+ * A workflow instance that the timer service can resume.
+ */
+export type TimerTarget = {
+  run(incomingEvents?: StepEvent[], opts?: RunOptions): Promise<Results>;
+};
+
+export type TimerServiceOptions = {
+  /** Persists the due-time index, so that timers survive restarts */
+  store: EventStore;
+  /**
+   * Loads the instance with the given id, e.g. with `workflow.rehydrate(store, id)`.
+   */
+  load: (id: string) => Promise<TimerTarget>;
+  /** The clock used to find due instances and to run them. Defaults to `Date.now` */
+  now?: () => number;
+  /** How often `start()` checks for due instances at most, in milliseconds. Defaults to 1000 */
+  pollInterval?: number;
+  /** Called with the results of every resumed instance */
+  onResult?: (id: string, results: Results) => void | Promise<void>;
+  /**
+   * Called when resuming an instance throws. The instance is retried after
+   * `pollInterval`. If not set, errors are rethrown from `tick()`, and ignored
+   * by the loop of `start()`.
+   */
+  onError?: (id: string, error: unknown) => void | Promise<void>;
+};
+
+/**
+ * Returns the earliest `waitUntil` of all interrupted nodes in `results`.
+ *
+ * @param results - The results of a workflow run.
+ * @returns The time the instance should be resumed at, or `undefined` if no node is waiting for a timer.
+ */
+export const nextWakeUp = (results: Results): number | undefined => {
+  let next: number | undefined = undefined;
+  for (const result of Object.values(results)) {
+    if (result?.status !== "intr" || !("waitUntil" in result)) continue;
+    const { waitUntil } = result;
+    if (waitUntil !== undefined && (next === undefined || waitUntil < next)) {
+      next = waitUntil;
+    }
+  }
+  return next;
+};
+
+/**
+ * Tracks the `waitUntil` deadlines of many workflow instances and resumes the
+ * instances whose timers are due.
+ *
+ * Deadlines are kept in a priority queue and persisted as a due-time index in
+ * the event store, so that a restarted service picks up where it left off.
+ *
+ * @example
+ * ```typescript
+ * const timers = new TimerService({
+ *   store,
+ *   load: (id) => workflow.rehydrate(store, id),
+ * });
+ * await timers.start();
+ *
+ * const instance = await workflow.rehydrate(store, "order-42");
+ * await timers.track("order-42", await instance.run(events));
+ * ```
+ */
+export class TimerService {
+  private queue = new Heap<{ id: string; at: number }>((a, b) => a.at - b.at);
+  /** The current due time of each instance; queue entries that differ are stale */
+  private due = new Map<string, number>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private ticking: Promise<string[]> | null = null;
+  private running = false;
+
+  constructor(private opts: TimerServiceOptions) {}
+
+  now = (): number => (this.opts.now ? this.opts.now() : Date.now());
+
+  /**
+   * Loads the persisted due-time index into the queue.
+   */
+  async restore(): Promise<void> {
+    const timers = await this.opts.store.loadTimers();
+    for (const [id, at] of Object.entries(timers)) {
+      if (this.due.get(id) === at) continue;
+      this.due.set(id, at);
+      this.queue.push({ id, at });
+    }
+  }
+
+  /**
+   * Schedules an instance to be resumed at the given time, replacing any
+   * previous timer of the instance.
+   *
+   * @param id - The instance id.
+   * @param at - When to resume the instance, or `undefined` to cancel its timer.
+   */
+  async schedule(id: string, at: number | undefined): Promise<void> {
+    if (this.due.get(id) === at) return;
+    if (at === undefined) {
+      this.due.delete(id);
+    } else {
+      this.due.set(id, at);
+      this.queue.push({ id, at });
+    }
+    await this.opts.store.saveTimer(id, at);
+  }
+
+  /**
+   * Schedules an instance based on the results of one of its runs.
+   *
+   * @param id - The instance id.
+   * @param results - The results returned by `run()`.
+   */
+  async track(id: string, results: Results): Promise<void> {
+    await this.schedule(id, nextWakeUp(results));
+  }
+
+  /**
+   * Returns when the next instance is due, if any.
+   */
+  next(): number | undefined {
+    this.dropStale();
+    return this.queue.peek()?.at;
+  }
+
+  /**
+   * Resumes all instances that are due, and schedules their next timers.
+   *
+   * @returns The ids of the resumed instances.
+   */
+  tick(): Promise<string[]> {
+    // Never resume the same instance twice at the same time
+    this.ticking ??= this.resumeDue().finally(() => {
+      this.ticking = null;
+    });
+    return this.ticking;
+  }
+
+  private async resumeDue(): Promise<string[]> {
+    const resumed: string[] = [];
+    const failed: string[] = [];
+    try {
+      for (
+        let next = this.next();
+        next !== undefined && next <= this.now();
+        next = this.next()
+      ) {
+        const { id, at } = this.queue.pop()!;
+        try {
+          const instance = await this.opts.load(id);
+          const results = await instance.run([], { now: this.now });
+          await this.track(id, results);
+          await this.opts.onResult?.(id, results);
+        } catch (error) {
+          // Unless the instance was scheduled anew before the error
+          if (this.due.get(id) === at) failed.push(id);
+          if (!this.opts.onError) throw error;
+          await this.opts.onError(id, error);
+        }
+        resumed.push(id);
+      }
+    } finally {
+      // Retried after the poll interval, not within this tick. The persisted
+      // timer is kept, so the instance is retried after a restart as well
+      const at = this.now() + (this.opts.pollInterval ?? 1000);
+      for (const id of failed) {
+        this.due.set(id, at);
+        this.queue.push({ id, at });
+      }
+    }
+    return resumed;
+  }
+
+  /**
+   * Restores the persisted due-time index and keeps resuming due instances
+   * until `stop()` is called. Does nothing if the service is already started.
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.restore();
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+    if (!this.running) return;
+    const loop = async () => {
+      try {
+        await this.tick();
+      } catch {
+        // The failed instance is retried, like with `onError`
+      } finally {
+        if (this.running) {
+          const next = this.next();
+          const interval = this.opts.pollInterval ?? 1000;
+          const delay =
+            next === undefined
+              ? interval
+              : Math.min(next - this.now(), interval);
+          this.timer = setTimeout(loop, Math.max(0, delay));
+        }
+      }
+    };
+    this.timer = setTimeout(loop, 0);
+  }
+
+  /**
+   * Stops resuming instances. Timers stay persisted.
+   */
+  stop(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    this.running = false;
+  }
+
+  private dropStale(): void {
+    for (
+      let top = this.queue.peek();
+      top && this.due.get(top.id) !== top.at;
+      top = this.queue.peek()
+    ) {
+      this.queue.pop();
+    }
+  }
+}
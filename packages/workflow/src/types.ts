@@ -1,3 +1,5 @@
+import type { Result, StepEvent, Workflow } from "./workflow";
+
 export type Warning = {
   type: "context_updated";
   step: string[];
@@ -79,6 +81,14 @@ export interface StepContext<T = unknown> {
 
   /** Optional deadline for completing the step (as timestamp in milliseconds since Unix epoch) */
   deadline?: number;
+
+  /**
+   * What the step resolves to once its deadline passes without a value:
+   * either a default value, or `"error"` to fail the node with a
+   * `StepTimeoutError`. The deadline is only enforced if this is set, and the
+   * timeout is recorded, so a value submitted later is ignored.
+   */
+  onTimeout?: T | "error";
   /** Additional metadata for the step as key-value pairs */
   extra?: Record<string, unknown>;
 
@@ -89,6 +99,43 @@ export interface StepContext<T = unknown> {
   inputs?: StepInput[];
 }
 
+/**
+ * Describes how a failed `capture` is retried.
+ * Every failed attempt is recorded as an event, and the backoff between two
+ * attempts is a durable `waitUntil` interrupt, so retries survive restarts.
+ */
+export type RetryPolicy = {
+  /** Maximum number of attempts, including the first one */
+  attempts: number;
+
+  /**
+   * Delay in milliseconds before the next attempt: either a base delay that
+   * doubles after every failed attempt, or a function of the failed attempt
+   * number (starting at 1). Defaults to retrying immediately.
+   */
+  backoff?: number | ((attempt: number) => number);
+
+  /** Upper bound for the delay between two attempts in milliseconds */
+  maxDelay?: number;
+
+  /** Decides whether an error should be retried. Defaults to retrying every error */
+  retryOn?: (error: unknown) => boolean;
+};
+
+/**
+ * Options for `WorkflowContext.capture`.
+ */
+export type CaptureOptions<T = unknown> = {
+  /** Retries the captured function when it throws or its promise rejects */
+  retry?: RetryPolicy;
+
+  /**
+   * Undoes the side effect of the captured function, given its result.
+   * Compensations are run by `Workflow.compensate()`, latest capture first.
+   */
+  compensate?: (value: T) => unknown;
+};
+
 /**
  * Represents the context available to nodes within a workflow.
  * This interface provides methods for interacting with the workflow,
@@ -123,6 +170,9 @@ export interface WorkflowContext<
 
   /**
    * Requests user input for a step in the workflow.
+   * Incoming values are checked against the TypeBox schema of the step; an
+   * invalid value is rejected with a `StepValidationError` and not consumed.
+   * Recorded values are not checked again.
    *
    * @param context - An object containing information about the step.
    * @param schema - The JSON schema describing the expected input.
@@ -150,7 +200,7 @@ export interface WorkflowContext<
    * // This node's compute function uses step to request user input with additional context
    * ```
    */
-  step<T>(context: StepContext): T;
+  step<T>(context: StepContext<T>): T;
 
   /**
    * Returns the current timestamp in milliseconds.
@@ -195,7 +245,11 @@ export interface WorkflowContext<
    *
    * @param context - An object containing information about the step, including a unique key for the capture operation.
    * @param fn - The function to be executed and captured, typically containing side effects or external interactions.
+   * It receives an `AbortSignal` that is aborted when the run is cancelled or times out.
+   * @param options - Optional retry policy applied when `fn` fails, and compensation undoing `fn`.
    * @returns The result of the executed function, cached for subsequent calls with the same key.
+   * It is recorded as is, without checking it against the schema of the step, so that an
+   * unexpected result does not call the function again.
    *
    * @example
    * ```typescript
@@ -204,16 +258,30 @@ export interface WorkflowContext<
    *     return capture({
    *       key: 'fetchUserData',
    *       description: 'Fetch user data from API'
-   *     }, async () => {
-   *       const response = await fetch('https://api.example.com/user');
+   *     }, async (signal) => {
+   *       const response = await fetch('https://api.example.com/user', { signal });
    *       return response.json();
    *     });
    *   })
    *   .build();
    * // This node's compute function uses capture to safely fetch and cache user data
+   *
+   * // Retry up to 5 times, waiting 1s, 2s, 4s, ... between attempts
+   * capture({ key: 'charge', schema }, () => charge(order), {
+   *   retry: { attempts: 5, backoff: 1000, maxDelay: 60_000 },
+   * });
+   *
+   * // Refund the charge when the workflow is rolled back
+   * capture({ key: 'charge', schema }, () => charge(order), {
+   *   compensate: (receipt) => refund(receipt),
+   * });
    * ```
    */
-  capture<T>(context: StepContext, fn: () => T | Promise<T>): T;
+  capture<T>(
+    context: StepContext,
+    fn: (signal: AbortSignal) => T | Promise<T>,
+    options?: CaptureOptions<T>,
+  ): T;
 
   /**
    * Pauses the execution of the current node until the specified datetime.
@@ -238,8 +306,63 @@ export interface WorkflowContext<
    */
   waitUntil(datetime: number, context?: Partial<StepContext>): void;
 
+  /**
+   * Waits for the next signal with the given name, sent with
+   * `Workflow.signal`. Signals are buffered until a node waits for them and
+   * are consumed once, in the order they were sent.
+   *
+   * @param name - The name of the signal.
+   * @param schema - The schema of the signal payload.
+   * @returns The payload of the signal.
+   *
+   * @example
+   * ```typescript
+   * const workflow = WorkflowBuilder.create()
+   *   .addNode({ key: 'shipping' }, ({ waitForSignal }) => {
+   *     const { trackingId } = waitForSignal('shipped', t.Object({ trackingId: t.String() }));
+   *     return trackingId;
+   *   })
+   *   .build();
+   *
+   * await workflow.signal('shipped', { trackingId: 'ABC123' });
+   * await workflow.run();
+   * ```
+   */
+  waitForSignal<T>(name: string, schema: { static: T }): T;
+
+  /**
+   * Picks the code path of a change to the node, so that the code of a node
+   * can change while instances are in flight.
+   * The first time a node reaches the change, `maxSupported` is recorded as an
+   * event and returned. Replays return the recorded version. Instances that
+   * got past this point before the change was made return `DEFAULT_VERSION`
+   * (0), so their history keeps replaying the old code path.
+   *
+   * @param changeId - Unique identifier of the change within the node.
+   * @param minSupported - Oldest version the code still handles.
+   * @param maxSupported - Current version, recorded by new instances.
+   * @returns The version to branch on.
+   * @throws Error if the recorded version is outside of the supported range.
+   *
+   * @example
+   * ```typescript
+   * const workflow = WorkflowBuilder.create()
+   *   .addNode({ key: 'order' }, ({ step, version }) => {
+   *     if (version('confirm-address', 0, 1) === 1) {
+   *       step({ key: 'address', schema: t.String() });
+   *     }
+   *     return step({ key: 'payment', schema: t.String() });
+   *   })
+   *   .build();
+   * // Old instances skip the new 'address' step, new ones ask for it
+   * ```
+   */
+  version(changeId: string, minSupported: number, maxSupported: number): number;
+
   /**
    * Generates a random number between 0 (inclusive) and 1 (exclusive).
+   * Numbers are drawn from the seed of the instance (see `RunOptions.seed`),
+   * so that replays draw the same numbers without recording an event per call.
    *
    * @returns A pseudo-random number between 0 and 1.
    *
@@ -254,6 +377,41 @@ export interface WorkflowContext<
    * ```
    */
   random(): number;
+
+  /**
+   * Generates a random integer between `min` (inclusive) and `max` (exclusive),
+   * drawn from the seed of the instance like `random`.
+   *
+   * @param min - The smallest integer that can be returned.
+   * @param max - One more than the largest integer that can be returned.
+   * @returns A pseudo-random integer.
+   *
+   * @example
+   * ```typescript
+   * const workflow = WorkflowBuilder.create()
+   *   .addNode({ key: 'dice' }, ({ randomInt }) => randomInt(1, 7))
+   *   .build();
+   * ```
+   */
+  randomInt(min: number, max: number): number;
+
+  /**
+   * Generates a version 4 UUID, drawn from the seed of the instance like
+   * `random`, so that replays generate the same ids.
+   *
+   * @returns A UUID such as `"0f8fad5b-d9cb-469f-a165-70867728950e"`.
+   *
+   * @example
+   * ```typescript
+   * const workflow = WorkflowBuilder.create()
+   *   .addNode({ key: 'order' }, ({ uuid, capture }) => {
+   *     const orderId = uuid();
+   *     return capture({ key: 'create', schema }, () => createOrder(orderId));
+   *   })
+   *   .build();
+   * ```
+   */
+  uuid(): string;
 }
 
 /**
@@ -268,7 +426,7 @@ export type DAGNode<
   /* The computed value of the node */
   value: V;
   /* Function to compute the node's value */
-  compute: (context: WorkflowContext) => V;
+  compute(context: WorkflowContext): V;
   /* Array of keys representing the node's dependencies */
   dependencies: D[];
   /* Optional title for the node */
@@ -278,6 +436,95 @@ export type DAGNode<
   /* Optional group to which the node belongs */
   group?: G;
   /* Optional saga function for advanced flow control */
-  saga?: (context: WorkflowContext, value: V) => ["cont" | "halt", V];
+  saga?(context: WorkflowContext, value: V): ["cont" | "halt", V];
+  /* Optional child workflow that is run instead of `compute` */
+  subworkflow?: Subworkflow;
+  /* Optional per-item compute that is run instead of `compute` */
+  map?: MapNode;
+  /* Optional condition, the node is skipped unless it holds */
+  when?(context: Pick<WorkflowContext, "get">): boolean;
+  /* Whether the node is skipped with a skipped dependency, or gets `undefined` for it */
+  onSkippedDependency?: "skip" | "undefined";
   schema: S;
 };
+
+/**
+ * Observes the execution of a workflow, e.g. for logging, metrics or tracing,
+ * see `WorkflowBuilder.addInterceptor` and `RunOptions.interceptors`.
+ * All hooks are optional and called synchronously, in registration order.
+ * Errors thrown by hooks are ignored.
+ * Subworkflow nodes are observed as a whole.
+ */
+export interface WorkflowInterceptor {
+  /** Called before the first node of a run is executed */
+  onRunStart?(info: {
+    /** The id of the instance, if it is attached to a store */
+    id?: string;
+    /** The nodes of the run, in topological order */
+    nodes: string[];
+    /** Whether the run only replays recorded events, e.g. for `compensate()` */
+    replay: boolean;
+  }): void;
+
+  /** Called when a node starts, once all of its dependencies have finished */
+  onNodeStart?(info: { node: string }): void;
+
+  /** Called when a node has finished, after the other hooks of the node */
+  onNodeResult?(info: { node: string; result: Result<unknown> }): void;
+
+  /**
+   * Called for every event consumed by the last replay of a node, once the
+   * node has finished. `fresh` is set for events recorded by this run.
+   */
+  onEventConsumed?(info: {
+    node: string;
+    event: StepEvent;
+    fresh: boolean;
+  }): void;
+
+  /** Called when a captured function returns a new value, not on replays */
+  onCapture?(info: { node: string; key: string[]; value: unknown }): void;
+
+  /** Called when a node is interrupted, before `onNodeResult` */
+  onInterrupt?(info: {
+    node: string;
+    step: FullStepContext;
+    waitUntil?: number;
+  }): void;
+
+  /** Called for every warning of a node, before `onNodeResult` */
+  onWarning?(warning: Warning): void;
+
+  /**
+   * Wraps every call of a captured function, e.g. in a tracing span. It must
+   * call `next` once and return its result, the first interceptor registered
+   * is the outermost.
+   */
+  wrapCapture?<T>(
+    info: { node: string; key: string[] },
+    next: () => T | Promise<T>,
+  ): T | Promise<T>;
+}
+
+/**
+ * A node that computes a value for every item of an array dependency, see
+ * `WorkflowBuilder.addMapNode`.
+ */
+export type MapNode = {
+  /** The dependency holding the items */
+  over: string;
+  /** Computes the value of a single item */
+  compute(context: WorkflowContext, item: unknown, index: number): unknown;
+};
+
+/**
+ * A child workflow embedded as a node, see `WorkflowBuilder.addSubworkflow`.
+ */
+export type Subworkflow = {
+  /** The child workflow definition, a fresh instance of it is run for the node */
+  workflow: Workflow<Record<string, DAGNode<unknown, string>>>;
+  /** Provides the values of child nodes from the dependencies of the node */
+  input?: (context: Pick<WorkflowContext, "get">) => Record<string, unknown>;
+  /** The child node whose value becomes the value of the node */
+  output: string;
+};
@@ -1,8 +1,22 @@
-import type { DAGNode, WorkflowContext } from "./types";
+import { type TSchema, Type } from "@sinclair/typebox";
+import _ from "lodash";
+import type {
+  DAGNode,
+  MapNode,
+  Subworkflow,
+  WorkflowContext,
+  WorkflowInterceptor,
+} from "./types";
 import { Workflow } from "./workflow";
 
 type NodeValue = string | number | boolean | (object & { then?: never });
 
+/** Keys of the nodes whose value is an array */
+type ArrayKeys<T extends Record<string, DAGNode<unknown, string>>> = {
+  [K in keyof T]: T[K]["value"] extends readonly unknown[] ? K : never;
+}[keyof T] &
+  string;
+
 /**
  * A builder class for creating workflows with typed nodes and groups.
  *
@@ -24,6 +38,7 @@ export class WorkflowBuilder<
 > {
   private nodes: T = {} as T;
   private groups: Set<G> = new Set();
+  private interceptors: WorkflowInterceptor[] = [];
 
   /**
    * Adds a new group to the workflow.
@@ -34,7 +49,25 @@ export class WorkflowBuilder<
   addGroup<NewG extends string>(group: NewG): WorkflowBuilder<T, G | NewG> {
     const newGroups = new Set<G | NewG>(this.groups);
     newGroups.add(group);
-    return new WorkflowBuilder<T, G | NewG>(this.nodes, newGroups);
+    return new WorkflowBuilder<T, G | NewG>(
+      this.nodes,
+      newGroups,
+      this.interceptors,
+    );
+  }
+
+  /**
+   * Adds an interceptor that observes every run of the workflow, before the
+   * interceptors given in `RunOptions`.
+   *
+   * @param interceptor - The hooks to call, see `WorkflowInterceptor`
+   * @returns A new WorkflowBuilder instance with the added interceptor
+   */
+  addInterceptor(interceptor: WorkflowInterceptor): WorkflowBuilder<T, G> {
+    return new WorkflowBuilder<T, G>(this.nodes, this.groups, [
+      ...this.interceptors,
+      interceptor,
+    ]);
   }
 
   /**
@@ -60,6 +93,17 @@ export class WorkflowBuilder<
       description?: string;
       /** Array of dependency keys (optional) */
       deps?: D[];
+      /**
+       * Condition on the dependencies, the node gets the status `skipped`
+       * unless it holds (optional)
+       */
+      when?: (context: Pick<WorkflowContext<T>, "get">) => boolean;
+      /**
+       * What happens when a dependency is skipped: the node is skipped too
+       * (`"skip"`, the default), or runs with `undefined` as the value of the
+       * dependency (`"undefined"`)
+       */
+      onSkippedDependency?: "skip" | "undefined";
       schema: { static: V };
     },
     compute: (context: WorkflowContext<T>) => V,
@@ -69,6 +113,10 @@ export class WorkflowBuilder<
     if (nodeKey in this.nodes) {
       throw new Error(`Node ${String(nodeKey)} already exists`);
     }
+    // Keys starting with $ are reserved for the streams of the workflow itself
+    if (nodeKey.startsWith("$")) {
+      throw new Error(`Node ${String(nodeKey)} must not start with $`);
+    }
 
     // Check if all dependencies exist
     for (const dep of config.deps ?? []) {
@@ -86,6 +134,10 @@ export class WorkflowBuilder<
         group,
         saga,
         schema,
+        ...(config.when ? { when: config.when as DAGNode<V, D>["when"] } : {}),
+        ...(config.onSkippedDependency
+          ? { onSkippedDependency: config.onSkippedDependency }
+          : {}),
       },
     };
 
@@ -93,7 +145,164 @@ export class WorkflowBuilder<
     return new WorkflowBuilder<T & Record<K, DAGNode<V, D, G>>, G>(
       newNodes as T & Record<K, DAGNode<V, D, G>>,
       this.groups,
+      this.interceptors,
+    );
+  }
+
+  /**
+   * Adds a node that fans out over the items of an array dependency. The
+   * item compute runs once per item, with the steps of each item namespaced
+   * under the key of the node and the index of the item, e.g.
+   * `["approvals", "2", "approve"]`. Each item is replayed, interrupted and
+   * resumed on its own, and the value of the node is the array of the item
+   * values once all items are done.
+   *
+   * @param config - Configuration object for the new node, `schema` is the schema of a single item
+   * @param compute - Synchronous function to compute the value of a single item
+   * @returns A new WorkflowBuilder instance with the added node
+   *
+   * @example
+   * ```typescript
+   * const workflow = WorkflowBuilder.create()
+   *   .addNode({ key: "orders", schema: t.Array(t.String()) }, () => ["a", "b"])
+   *   .addMapNode(
+   *     { key: "approvals", over: "orders", schema: t.Boolean() },
+   *     ({ step }, order) => step({ key: "approve", title: order, schema: t.Boolean() }),
+   *   )
+   *   .build();
+   * ```
+   */
+  addMapNode<
+    K extends string,
+    V extends NodeValue,
+    O extends ArrayKeys<T>,
+    D extends Extract<keyof T, string>,
+  >(
+    config: {
+      /** The key for the new node */
+      key: K extends keyof T ? never : K;
+      /** The dependency holding the items */
+      over: O;
+      /** The group to which the node belongs (optional) */
+      group?: G;
+      /* Optional title for the node */
+      title?: string;
+      /* Optional description of the node's purpose or functionality */
+      description?: string;
+      /** Array of additional dependency keys (optional) */
+      deps?: D[];
+      schema: { static: V };
+    },
+    compute: (
+      context: WorkflowContext<T>,
+      item: T[O]["value"] extends readonly (infer I)[] ? I : never,
+      index: number,
+    ) => V,
+  ): WorkflowBuilder<T & Record<K, DAGNode<V[], D | O>>, G> {
+    const builder = this.addNode(
+      {
+        ...config,
+        deps: _.uniq<D>([config.over as string as D, ...(config.deps ?? [])]),
+        schema: Type.Array(config.schema as TSchema),
+      },
+      () => {
+        throw new Error(`Map node ${config.key} is not computed`);
+      },
+    );
+    const node = builder.nodes[config.key] as DAGNode<unknown, string>;
+    node.map = {
+      over: config.over,
+      compute: compute as MapNode["compute"],
+    };
+    return builder as unknown as WorkflowBuilder<
+      T & Record<K, DAGNode<V[], D | O>>,
+      G
+    >;
+  }
+
+  /**
+   * Adds another workflow as a node. A fresh instance of the child workflow
+   * is run as part of the node: its step keys are namespaced under the key of
+   * the node, so that `["checkout", "payment", "card"]` is the `card` step of
+   * the child node `payment`, and its interrupts are interrupts of the node.
+   *
+   * @param config - Configuration object for the new node
+   * @returns A new WorkflowBuilder instance with the added node
+   *
+   * @example
+   * ```typescript
+   * const payment = WorkflowBuilder.create()
+   *   .addNode({ key: "amount", schema: t.Number() }, () => 0)
+   *   .addNode({ key: "receipt", deps: ["amount"], schema: t.String() }, ...)
+   *   .build();
+   *
+   * const checkout = WorkflowBuilder.create()
+   *   .addNode({ key: "cart", schema: t.Number() }, ...)
+   *   .addSubworkflow({
+   *     key: "payment",
+   *     deps: ["cart"],
+   *     workflow: payment,
+   *     input: ({ get }) => ({ amount: get("cart") }),
+   *     output: "receipt",
+   *   })
+   *   .build();
+   * ```
+   */
+  addSubworkflow<
+    K extends string,
+    C extends Record<string, DAGNode<unknown, string>>,
+    O extends Extract<keyof C, string>,
+    D extends Extract<keyof T, string>,
+  >(config: {
+    /** The key for the new node */
+    key: K extends keyof T ? never : K;
+    /** The group to which the node belongs (optional) */
+    group?: G;
+    /* Optional title for the node */
+    title?: string;
+    /* Optional description of the node's purpose or functionality */
+    description?: string;
+    /** Array of dependency keys (optional) */
+    deps?: D[];
+    /** The child workflow */
+    workflow: Workflow<C, string>;
+    /**
+     * Values of child nodes, computed from the dependencies (optional).
+     * Child nodes given here are not computed.
+     */
+    input?: (context: Pick<WorkflowContext<T>, "get">) => {
+      [N in keyof C]?: C[N]["value"];
+    };
+    /** The child node whose value becomes the value of the node */
+    output: O;
+  }): WorkflowBuilder<T & Record<K, DAGNode<C[O]["value"], D>>, G> {
+    const output = config.workflow
+      .topology()
+      .find(({ node }) => node === config.output);
+    if (!output) {
+      throw new Error(
+        `Node ${config.output} does not exist in the subworkflow`,
+      );
+    }
+    const builder = this.addNode(
+      {
+        ...config,
+        schema: output.schema as { static: NodeValue },
+      },
+      () => {
+        throw new Error(`Subworkflow ${config.key} is not computed`);
+      },
     );
+    const node = builder.nodes[config.key] as DAGNode<unknown, string>;
+    node.subworkflow = {
+      workflow: config.workflow as unknown as Subworkflow["workflow"],
+      input: config.input as Subworkflow["input"],
+      output: config.output,
+    };
+    return builder as unknown as WorkflowBuilder<
+      T & Record<K, DAGNode<C[O]["value"], D>>,
+      G
+    >;
   }
 
   /**
@@ -105,9 +314,14 @@ export class WorkflowBuilder<
     return new WorkflowBuilder({}, new Set<string>());
   }
 
-  private constructor(nodes: T, groups: Set<G>) {
+  private constructor(
+    nodes: T,
+    groups: Set<G>,
+    interceptors: WorkflowInterceptor[] = [],
+  ) {
     this.nodes = nodes;
     this.groups = groups;
+    this.interceptors = interceptors;
   }
 
   /**
@@ -116,6 +330,6 @@ export class WorkflowBuilder<
    * @returns  A new Workflow instance
    */
   build(): Workflow<T, G> {
-    return new Workflow<T, G>(this.nodes, this.groups);
+    return new Workflow<T, G>(this.nodes, this.groups, this.interceptors);
   }
 }
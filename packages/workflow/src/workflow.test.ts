@@ -2,7 +2,27 @@ import { describe, expect, test } from "bun:test";
 import dedent from "dedent";
 import { Heap } from "heap-js";
 import _ from "lodash";
-import { type StepEvent, WorkflowBuilder, parse, t } from ".";
+import {
+  AlreadyRunningError,
+  CaptureFailedError,
+  InMemoryEventStore,
+  MigrationError,
+  NonDeterminismError,
+  type RetryPolicy,
+  type StepEvent,
+  StepTimeoutError,
+  StepValidationError,
+  Workflow,
+  WorkflowBuilder,
+  type WorkflowContext,
+  WorkflowError,
+  type WorkflowInterceptor,
+  WorkflowTimeoutError,
+  diffRuns,
+  migrateEvents,
+  parse,
+  t,
+} from ".";
 import sleepWorkflow from "../examples/sleep";
 import { DoneSchema, RandomSchema } from "./schemas";
 import { sleep } from "./utils";
@@ -115,6 +135,59 @@ describe("Workflow", () => {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     expect(exec3.newEvents.map(({ ts: _ts, ...e }) => e)).toMatchSnapshot();
     expect(exec3.values.c?.status).toBe("err");
+    // The invalid event is rejected instead of being consumed
+    expect(exec3.newEvents).toHaveLength(0);
+    const error = exec3.values.c?.status === "err" && exec3.values.c.error;
+    expect(error).toBeInstanceOf(StepValidationError);
+    expect(error instanceof StepValidationError && error.errors).toEqual([
+      { path: "/x", message: "Expected required property" },
+      { path: "/x", message: "Expected number" },
+    ]);
+  });
+  test("does not validate recorded events", async () => {
+    const loose = WorkflowBuilder.create()
+      .addNode({ key: "age", schema: t.Number() }, ({ step }) =>
+        parse(t.Number(), step({ key: "ask", schema: t.Number() })),
+      )
+      .build();
+    const strict = WorkflowBuilder.create()
+      .addNode({ key: "age", schema: t.Number() }, ({ step }) =>
+        parse(
+          t.Number(),
+          step({ key: "ask", schema: t.Number({ minimum: 18 }) }),
+        ),
+      )
+      .build();
+    await loose.run([{ k: ["age", "ask"], v: 16, ts: 0 }]);
+
+    const instance = Workflow.restore(strict, loose.toJSON());
+    const res = await instance.run();
+    expect(res.age).toEqual({ status: "done", value: 16 });
+    const rejected = await strict.dryRun([{ k: ["age", "ask"], v: 16, ts: 0 }]);
+    expect(rejected.values.age?.status).toBe("err");
+  });
+  test("records captured results without validating them", async () => {
+    let calls = 0;
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "sync", schema: t.String() }, ({ capture }) =>
+        capture({ key: "fetch", schema: t.Number() }, () => {
+          calls += 1;
+          return "one";
+        }),
+      )
+      .addNode({ key: "async", schema: t.String() }, ({ capture }) =>
+        capture({ key: "fetch", schema: t.Number() }, async () => {
+          calls += 1;
+          return "two";
+        }),
+      )
+      .build();
+    const res1 = await workflow.run();
+    expect(res1.sync).toEqual({ status: "done", value: "one" });
+    expect(res1.async).toEqual({ status: "done", value: "two" });
+
+    await workflow.run();
+    expect(calls).toBe(2);
   });
   test("simple group", async () => {
     const workflow = WorkflowBuilder.create()
@@ -137,6 +210,68 @@ describe("Workflow", () => {
       .build();
     await workflow.run([]);
   });
+  test("group status and group-scoped runs", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addGroup("profile")
+      .addGroup("billing")
+      .addNode(
+        { key: "name", group: "profile", schema: t.String() },
+        () => "Ada",
+      )
+      .addNode(
+        { key: "email", group: "profile", schema: t.String() },
+        ({ step }) => step({ key: "email", schema: t.String() }),
+      )
+      .addNode(
+        {
+          key: "invoice",
+          group: "billing",
+          deps: ["name"],
+          schema: t.String(),
+        },
+        ({ get }) => `Invoice for ${get("name")}`,
+      )
+      .build();
+
+    const res = await workflow.run([], { groups: ["billing"] });
+    expect(Object.keys(res)).toEqual(["name", "invoice"]);
+    expect(workflow.groupStatus(res)).toEqual({
+      profile: {
+        status: "pending",
+        counts: {
+          done: 1,
+          pending: 1,
+          intr: 0,
+          err: 0,
+          cancelled: 0,
+          skipped: 0,
+        },
+        nodes: ["name", "email"],
+      },
+      billing: {
+        status: "done",
+        counts: {
+          done: 1,
+          pending: 0,
+          intr: 0,
+          err: 0,
+          cancelled: 0,
+          skipped: 0,
+        },
+        nodes: ["invoice"],
+      },
+    });
+
+    const all = await workflow.run();
+    expect(workflow.groupStatus(all).profile.status).toBe("intr");
+    expect(workflow.topology().map(({ node, group }) => [node, group])).toEqual(
+      [
+        ["name", "profile"],
+        ["email", "profile"],
+        ["invoice", "billing"],
+      ],
+    );
+  });
   test("waitUntil", async () => {
     const until = Date.now() + 10;
     const workflow = WorkflowBuilder.create()
@@ -673,3 +808,1713 @@ describe("saga function", () => {
     expect(result.newEvents[1].c?.inputs?.map((i) => i.key)).toEqual([["cat"]]);
   });
 });
+
+describe("serialization", () => {
+  const workflow = WorkflowBuilder.create()
+    .addNode(
+      { key: "total", schema: t.Number() },
+      (): number => 0,
+      (ctx, value) => {
+        const schema = t.Number();
+        return [
+          "cont",
+          value + parse(schema, ctx.step({ key: "add", schema })),
+        ];
+      },
+    )
+    .build();
+
+  test("restores an instance exported with toJSON", async () => {
+    const instance = workflow.spawn();
+    await instance.run([{ k: ["total", "add"], ts: Date.now(), v: 2 }]);
+    await instance.run([{ k: ["total", "add"], ts: Date.now(), v: 3 }]);
+
+    const state = JSON.parse(JSON.stringify(instance));
+    expect(state.version).toBe(1);
+    const restored = Workflow.restore(workflow, state);
+    const res = await restored.run([
+      { k: ["total", "add"], ts: Date.now(), v: 4 },
+    ]);
+    expect(res.total?.status === "intr" && res.total.value).toBe(9);
+    expect(restored.toJSON().events.total).toHaveLength(3);
+  });
+
+  test("rejects invalid states", () => {
+    expect(() =>
+      Workflow.restore(workflow, { version: 2, events: {}, snapshots: {} }),
+    ).toThrow("Invalid workflow state at /version");
+    expect(() =>
+      Workflow.restore(workflow, {
+        version: 1,
+        events: { missing: [] },
+        snapshots: {},
+      }),
+    ).toThrow("unknown node missing");
+  });
+});
+
+describe("concurrency", () => {
+  const fetchWorkflow = (log: string[]) => {
+    const fetch = (node: string, ms: number, value: number) => async () => {
+      log.push(`start ${node}`);
+      await sleep(ms);
+      log.push(`end ${node}`);
+      return value;
+    };
+    return WorkflowBuilder.create()
+      .addNode({ key: "a", schema: t.Number() }, ({ capture }) =>
+        capture({ key: "fetch", schema: t.Number() }, fetch("a", 30, 1)),
+      )
+      .addNode({ key: "b", schema: t.Number() }, ({ capture }) =>
+        capture({ key: "fetch", schema: t.Number() }, fetch("b", 10, 2)),
+      )
+      .addNode(
+        { key: "sum", deps: ["a", "b"], schema: t.Number() },
+        ({ get }) => get("a") + get("b"),
+      )
+      .build();
+  };
+
+  test("runs independent nodes concurrently", async () => {
+    const log: string[] = [];
+    const res = await fetchWorkflow(log).dryRun([]);
+    // b starts before a has finished
+    expect(log.slice(0, 2)).toEqual(["start a", "start b"]);
+    expect(res.values.sum?.status === "done" && res.values.sum.value).toBe(3);
+    // Events are ordered by node, not by completion
+    expect(res.newEvents.map((e) => e.k)).toEqual([
+      ["a", "capture:fetch"],
+      ["b", "capture:fetch"],
+    ]);
+  });
+
+  test("respects the concurrency limit", async () => {
+    const log: string[] = [];
+    const res = await fetchWorkflow(log).dryRun([], { concurrency: 1 });
+    expect(log).toEqual(["start a", "end a", "start b", "end b"]);
+    expect(res.values.sum?.status === "done" && res.values.sum.value).toBe(3);
+  });
+
+  test("rejects a concurrency below 1", async () => {
+    const workflow = fetchWorkflow([]);
+    for (const concurrency of [0, -1, Number.NaN]) {
+      await expect(workflow.run([], { concurrency })).rejects.toThrow(
+        `Invalid concurrency ${concurrency}, it must be at least 1`,
+      );
+    }
+    expect(workflow.isRunning).toBe(false);
+  });
+});
+
+describe("capture retry", () => {
+  const flaky = (failures: number, retry: RetryPolicy) => {
+    let calls = 0;
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "fetch", schema: t.Number() }, ({ capture }) =>
+        capture(
+          { key: "call", schema: t.Number() },
+          async () => {
+            calls += 1;
+            if (calls <= failures) throw new Error(`outage ${calls}`);
+            return calls;
+          },
+          { retry },
+        ),
+      )
+      .build();
+    return { workflow, calls: () => calls };
+  };
+
+  test("backs off with a durable waitUntil", async () => {
+    const { workflow, calls } = flaky(2, { attempts: 3, backoff: 100 });
+    let current = 1_000;
+    const now = () => current;
+
+    const res1 = await workflow.run([], { now });
+    expect(res1.fetch).toMatchObject({ status: "intr", waitUntil: 1_100 });
+
+    current = 1_100;
+    const res2 = await workflow.run([], { now });
+    // The delay doubles after every failed attempt
+    expect(res2.fetch).toMatchObject({ status: "intr", waitUntil: 1_300 });
+
+    current = 1_300;
+    const res3 = await workflow.run([], { now });
+    expect(res3.fetch?.status === "done" && res3.fetch.value).toBe(3);
+    expect(calls()).toBe(3);
+    expect(workflow.toJSON().events.fetch?.map((e) => [e.k[1], e.v])).toEqual([
+      ["capture:call:failed", { attempt: 1, error: expect.any(Object) }],
+      ["capture:call:failed", { attempt: 2, error: expect.any(Object) }],
+      ["capture:call", 3],
+    ]);
+
+    // Replays do not call the function again
+    await workflow.run([], { now });
+    expect(calls()).toBe(3);
+  });
+
+  test("retries immediately without backoff", async () => {
+    const { workflow, calls } = flaky(2, { attempts: 3 });
+    const res = await workflow.run();
+    expect(res.fetch?.status === "done" && res.fetch.value).toBe(3);
+    expect(calls()).toBe(3);
+  });
+
+  test("fails once attempts are exhausted or retryOn declines", async () => {
+    const exhausted = flaky(2, { attempts: 2 });
+    const res1 = await exhausted.workflow.run();
+    const error = res1.fetch?.status === "err" && res1.fetch.error;
+    expect(error).toBeInstanceOf(CaptureFailedError);
+    expect(error instanceof CaptureFailedError && error.cause).toEqual(
+      new Error("outage 2"),
+    );
+    expect(error instanceof CaptureFailedError && error.message).toBe(
+      "Capture fetch,capture:call failed after 2 attempts: outage 2",
+    );
+
+    const declined = flaky(2, { attempts: 5, retryOn: () => false });
+    const res2 = await declined.workflow.run();
+    expect(res2.fetch?.status).toBe("err");
+    expect(declined.calls()).toBe(1);
+  });
+});
+
+describe("versioning", () => {
+  const ask = (key: string) => ({ key, schema: t.String() });
+  const original = WorkflowBuilder.create()
+    .addNode({ key: "order", schema: t.String() }, ({ step }) => {
+      step(ask("item"));
+      return step(ask("payment"));
+    })
+    .build();
+  const changed = WorkflowBuilder.create()
+    .addNode({ key: "order", schema: t.String() }, ({ step, version }) => {
+      if (version("confirm-address", 0, 1) === 1) step(ask("address"));
+      step(ask("item"));
+      return step(ask("payment"));
+    })
+    .build();
+  const started = async () => {
+    const instance = original.spawn();
+    await instance.run([{ k: ["order", "item"], ts: 0, v: "book" }]);
+    return instance.toJSON();
+  };
+
+  test("replays the old code path for existing histories", async () => {
+    const instance = Workflow.restore(changed, await started());
+    const res = await instance.run();
+    expect(res.order?.status === "intr" && res.order.step.key).toEqual([
+      "order",
+      "payment",
+    ]);
+    expect(instance.toJSON().events.order).toHaveLength(1);
+  });
+
+  test("records the current version for new instances", async () => {
+    const instance = changed.spawn();
+    const res1 = await instance.run();
+    expect(res1.order?.status === "intr" && res1.order.step.key).toEqual([
+      "order",
+      "address",
+    ]);
+    expect(instance.toJSON().events.order?.map((e) => [e.k[1], e.v])).toEqual([
+      ["version:confirm-address", 1],
+    ]);
+
+    const res2 = await instance.run([
+      { k: ["order", "address"], ts: 0, v: "home" },
+      { k: ["order", "item"], ts: 0, v: "book" },
+      { k: ["order", "payment"], ts: 0, v: "card" },
+    ]);
+    expect(res2.order?.status === "done" && res2.order.value).toBe("card");
+  });
+
+  test("rejects recorded versions that are no longer supported", async () => {
+    const dropped = WorkflowBuilder.create()
+      .addNode({ key: "order", schema: t.String() }, ({ version }) =>
+        String(version("confirm-address", 2, 2)),
+      )
+      .build();
+    const instance = changed.spawn();
+    await instance.run();
+    const res = await Workflow.restore(dropped, instance.toJSON()).run();
+    expect(res.order?.status === "err" && res.order.error.message).toBe(
+      "Unsupported version 1 of confirm-address, expected 2 to 2",
+    );
+  });
+
+  test("reports unguarded changes as non-determinism", async () => {
+    const unguarded = WorkflowBuilder.create()
+      .addNode({ key: "order", schema: t.String() }, ({ step }) => {
+        step(ask("address"));
+        return step(ask("item"));
+      })
+      .build();
+    const res = await Workflow.restore(unguarded, await started()).run();
+    const error = res.order?.status === "err" && res.order.error;
+    expect(error).toBeInstanceOf(NonDeterminismError);
+    expect(error).toMatchObject({
+      node: "order",
+      step: ["order", "address"],
+      event: ["order", "item"],
+      eventIdx: 0,
+    });
+  });
+});
+
+describe("subworkflow", () => {
+  const payment = WorkflowBuilder.create()
+    .addNode({ key: "amount", schema: t.Number() }, ({ step }) =>
+      step<number>({ key: "amount", schema: t.Number() }),
+    )
+    .addNode(
+      { key: "receipt", deps: ["amount"], schema: t.String() },
+      ({ get, step }) => {
+        step({ key: "confirm", schema: DoneSchema });
+        return `paid ${get("amount")}`;
+      },
+    )
+    .build();
+  const checkout = WorkflowBuilder.create()
+    .addNode({ key: "cart", schema: t.Number() }, () => 30)
+    .addSubworkflow({
+      key: "payment",
+      deps: ["cart"],
+      workflow: payment,
+      input: ({ get }) => ({ amount: get("cart") }),
+      output: "receipt",
+    })
+    .addNode(
+      { key: "email", deps: ["payment"], schema: t.String() },
+      ({ get }) => `Your receipt: ${get("payment")}`,
+    )
+    .build();
+
+  test("namespaces the child steps under the node", async () => {
+    const res1 = await checkout.run();
+    expect(res1.payment?.status === "intr" && res1.payment.step.key).toEqual([
+      "payment",
+      "receipt",
+      "confirm",
+    ]);
+    expect(res1.email?.status).toBe("pending");
+
+    const res2 = await checkout.run([
+      { k: ["payment", "receipt", "confirm"], ts: 0, v: "done" },
+    ]);
+    expect(res2.payment?.status === "done" && res2.payment.value).toBe(
+      "paid 30",
+    );
+    expect(res2.email?.status === "done" && res2.email.value).toBe(
+      "Your receipt: paid 30",
+    );
+    expect(checkout.toJSON().events.payment?.map((e) => e.k)).toEqual([
+      ["payment", "receipt", "confirm"],
+    ]);
+
+    // The child is replayed from the events of the node
+    const res3 = await checkout.run();
+    expect(res3.payment?.status === "done" && res3.payment.value).toBe(
+      "paid 30",
+    );
+  });
+
+  test("computes child nodes that are not given as input", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addSubworkflow({ key: "payment", workflow: payment, output: "receipt" })
+      .build();
+    const res = await workflow.run([
+      { k: ["payment", "amount", "amount"], ts: 0, v: 12 },
+      { k: ["payment", "receipt", "confirm"], ts: 0, v: "done" },
+    ]);
+    expect(res.payment?.status === "done" && res.payment.value).toBe("paid 12");
+  });
+
+  test("bubbles up child timers", async () => {
+    const child = WorkflowBuilder.create()
+      .addNode({ key: "wait", schema: t.Boolean() }, ({ waitUntil }) => {
+        waitUntil(2_000);
+        return true;
+      })
+      .build();
+    const workflow = WorkflowBuilder.create()
+      .addSubworkflow({ key: "child", workflow: child, output: "wait" })
+      .build();
+    const res = await workflow.run([], { now: () => 1_000 });
+    expect(res.child).toMatchObject({
+      status: "intr",
+      step: { key: ["child", "wait", "waitUntil"] },
+      waitUntil: 2_000,
+    });
+  });
+
+  test("exposes every interrupt of the child", async () => {
+    const child = WorkflowBuilder.create()
+      .addNode({ key: "x", schema: t.String() }, ({ step }) =>
+        parse(t.String(), step({ key: "ask", schema: t.String() })),
+      )
+      .addNode({ key: "y", schema: t.String() }, ({ step }) =>
+        parse(t.String(), step({ key: "ask", schema: t.String() })),
+      )
+      .addNode(
+        { key: "both", deps: ["x", "y"], schema: t.String() },
+        ({ get }) => `${get("x")} ${get("y")}`,
+      )
+      .build();
+    const workflow = WorkflowBuilder.create()
+      .addSubworkflow({ key: "c", workflow: child, output: "both" })
+      .build();
+
+    const inbox = workflow.inbox(await workflow.run());
+    expect(inbox.map((entry) => entry.key)).toEqual([
+      ["c", "x", "ask"],
+      ["c", "y", "ask"],
+    ]);
+    const res = await workflow.run(
+      inbox.flatMap((entry) =>
+        entry.kind === "timer"
+          ? []
+          : [{ ...entry.event, v: entry.key[1], ts: 0 }],
+      ),
+    );
+    expect(res.c).toEqual({ status: "done", value: "x y" });
+  });
+
+  test("rejects unknown outputs", () => {
+    expect(() =>
+      WorkflowBuilder.create().addSubworkflow({
+        key: "payment",
+        workflow: payment,
+        output: "missing" as "receipt",
+      }),
+    ).toThrow("Node missing does not exist in the subworkflow");
+  });
+});
+
+describe("signals", () => {
+  const shipping = () =>
+    WorkflowBuilder.create()
+      .addNode({ key: "parcels", schema: t.Array(t.String()) }, (ctx) => {
+        const schema = t.String();
+        return [
+          ctx.waitForSignal("shipped", schema),
+          ctx.waitForSignal("shipped", schema),
+        ];
+      })
+      .build();
+
+  test("buffers signals until a node waits for them", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "approval", schema: DoneSchema }, ({ step }) =>
+        step({ key: "approve", schema: DoneSchema }),
+      )
+      .addNode(
+        { key: "shipped", deps: ["approval"], schema: t.String() },
+        ({ waitForSignal }) => waitForSignal("shipped", t.String()),
+      )
+      .build();
+    await workflow.signal("shipped", "ABC");
+    const res1 = await workflow.run();
+    expect(res1.shipped?.status).toBe("pending");
+
+    const res2 = await workflow.run([
+      { k: ["approval", "approve"], ts: 0, v: "done" },
+    ]);
+    expect(res2.shipped?.status === "done" && res2.shipped.value).toBe("ABC");
+  });
+
+  test("consumes signals once and in order", async () => {
+    const workflow = shipping();
+    await workflow.signal("shipped", "A");
+    const res1 = await workflow.run();
+    expect(res1.parcels).toMatchObject({
+      status: "intr",
+      step: { key: ["parcels", "signal:shipped"] },
+    });
+
+    await workflow.signal("shipped", "B");
+    await workflow.signal("shipped", "C");
+    const res2 = await workflow.run();
+    expect(res2.parcels?.status === "done" && res2.parcels.value).toEqual([
+      "A",
+      "B",
+    ]);
+
+    // C is still buffered for the next node waiting for it
+    const state = workflow.toJSON();
+    expect(state.events.$signal).toHaveLength(3);
+    expect(state.events.parcels).toHaveLength(2);
+  });
+
+  test("rejects signals that do not match the waiting node", async () => {
+    const workflow = shipping();
+    await workflow.run();
+    await expect(workflow.signal("shipped", 42)).rejects.toThrow(
+      StepValidationError,
+    );
+
+    await workflow.signal("shipped", "A");
+    await workflow.signal("shipped", "B");
+    const res = await workflow.run();
+    expect(res.parcels?.status === "done" && res.parcels.value).toEqual([
+      "A",
+      "B",
+    ]);
+    expect(workflow.toJSON().events.$signal).toHaveLength(2);
+  });
+
+  test("takes buffered signals before the events of later steps", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "shipment", schema: t.String() }, (ctx) => {
+        const code = ctx.waitForSignal("shipped", t.String());
+        const note = ctx.step({ key: "note", schema: t.String() });
+        return `${code}: ${note}`;
+      })
+      .build();
+    await workflow.signal("shipped", "ABC");
+    const res = await workflow.run([
+      { k: ["shipment", "note"], ts: 0, v: "fragile" },
+    ]);
+    expect(res.shipment?.status === "done" && res.shipment.value).toBe(
+      "ABC: fragile",
+    );
+  });
+
+  test("persists signals in the store", async () => {
+    const store = new InMemoryEventStore();
+    const workflow = shipping();
+    const instance = await workflow.rehydrate(store, "order");
+    await instance.signal("shipped", "A");
+    await instance.signal("shipped", "B");
+
+    const restored = await workflow.rehydrate(store, "order");
+    const res = await restored.run();
+    expect(res.parcels?.status === "done" && res.parcels.value).toEqual([
+      "A",
+      "B",
+    ]);
+    expect(Workflow.restore(workflow, restored.toJSON()).toJSON()).toEqual(
+      restored.toJSON(),
+    );
+  });
+});
+
+describe("cancellation", () => {
+  const slowWorkflow = (onAbort: (reason: unknown) => void) =>
+    WorkflowBuilder.create()
+      .addNode({ key: "fast", schema: t.Number() }, () => 1)
+      .addNode({ key: "slow", schema: t.Number() }, ({ capture }) =>
+        capture(
+          { key: "call", schema: t.Number() },
+          (signal) =>
+            new Promise<number>((resolve, reject) => {
+              const timer = setTimeout(() => resolve(2), 1_000);
+              signal.addEventListener("abort", () => {
+                clearTimeout(timer);
+                onAbort(signal.reason);
+                reject(signal.reason);
+              });
+            }),
+        ),
+      )
+      .addNode(
+        { key: "sum", deps: ["fast", "slow"], schema: t.Number() },
+        ({ get }) => get("fast") + get("slow"),
+      )
+      .build();
+
+  test("cancels running nodes when the signal is aborted", async () => {
+    const reasons: unknown[] = [];
+    const workflow = slowWorkflow((reason) => reasons.push(reason));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort("stop"), 20);
+
+    const start = Date.now();
+    const res = await workflow.run([], { signal: controller.signal });
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(res.fast?.status).toBe("done");
+    expect(res.slow?.status).toBe("cancelled");
+    expect(res.sum).toBeUndefined();
+    expect(reasons).toEqual(["stop"]);
+    expect(workflow.isRunning).toBe(false);
+    expect(workflow.toJSON().events).toEqual({});
+  });
+
+  test("aborts captured functions on timeout", async () => {
+    const reasons: unknown[] = [];
+    const workflow = slowWorkflow((reason) => reasons.push(reason));
+    await expect(workflow.run([], { timeout: 20 })).rejects.toThrow("Timeout");
+    expect(reasons).toEqual([new WorkflowTimeoutError(20)]);
+    expect(workflow.isRunning).toBe(false);
+  });
+
+  test("does not start when the signal is already aborted", async () => {
+    let calls = 0;
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "a", schema: t.Number() }, ({ capture }) =>
+        capture({ key: "call", schema: t.Number() }, () => ++calls),
+      )
+      .build();
+    const res = await workflow.dryRun([], { signal: AbortSignal.abort() });
+    expect(res.values.a).toBeUndefined();
+    expect(res.newEvents).toEqual([]);
+    expect(calls).toBe(0);
+  });
+
+  test("does not call captured functions once cancelled", async () => {
+    const controller = new AbortController();
+    const calls: string[] = [];
+    const call = (key: string, value: number) => () => {
+      calls.push(key);
+      if (key === "first") controller.abort();
+      return value;
+    };
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "a", schema: t.Number() }, ({ capture }) => {
+        capture({ key: "first", schema: t.Number() }, call("first", 1));
+        return capture(
+          { key: "second", schema: t.Number() },
+          call("second", 2),
+        );
+      })
+      .addNode({ key: "b", deps: ["a"], schema: t.Number() }, ({ capture }) =>
+        capture({ key: "third", schema: t.Number() }, call("third", 3)),
+      )
+      .build();
+
+    const res = await workflow.run([], { signal: controller.signal });
+    expect(calls).toEqual(["first"]);
+    expect(res.a?.status).toBe("cancelled");
+    expect(res.b).toBeUndefined();
+  });
+});
+
+describe("compensation", () => {
+  const booking = (log: string[], failRefund = { count: 0 }) => {
+    let clock = 0;
+    const now = () => ++clock;
+    const book =
+      (item: string) =>
+      ({ capture }: { capture: WorkflowContext["capture"] }) =>
+        capture(
+          { key: "book", schema: t.String() },
+          () => {
+            log.push(`book ${item}`);
+            return `${item}-1`;
+          },
+          {
+            compensate: (id) => {
+              if (failRefund.count > 0) {
+                failRefund.count -= 1;
+                throw new Error("refund failed");
+              }
+              log.push(`cancel ${id}`);
+            },
+          },
+        );
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "flight", schema: t.String() }, book("flight"))
+      .addNode(
+        { key: "hotel", deps: ["flight"], schema: t.String() },
+        book("hotel"),
+      )
+      .addNode(
+        { key: "car", deps: ["hotel"], schema: t.String() },
+        (): string => {
+          throw new Error("no cars left");
+        },
+      )
+      .build();
+    return { workflow, now };
+  };
+
+  test("rolls back in reverse order when a node errs", async () => {
+    const log: string[] = [];
+    const { workflow, now } = booking(log);
+    const res = await workflow.run([], { now, rollback: true });
+    expect(res.car?.status).toBe("err");
+    expect(log).toEqual([
+      "book flight",
+      "book hotel",
+      "cancel hotel-1",
+      "cancel flight-1",
+    ]);
+    expect(workflow.toJSON().events.$compensated?.map((e) => e.k)).toEqual([
+      ["$compensated", "hotel", "capture:book"],
+      ["$compensated", "flight", "capture:book"],
+    ]);
+
+    // Compensations run once, and replays do not book again
+    expect(await workflow.compensate({ now })).toEqual([]);
+    expect(log).toHaveLength(4);
+  });
+
+  test("resumes a rollback after a compensation fails", async () => {
+    const log: string[] = [];
+    const failRefund = { count: 1 };
+    const { workflow, now } = booking(log, failRefund);
+    await workflow.run([], { now });
+    expect(log).toEqual(["book flight", "book hotel"]);
+
+    await expect(workflow.compensate({ now })).rejects.toThrow("refund failed");
+    expect(await workflow.compensate({ now })).toEqual([
+      ["hotel", "capture:book"],
+      ["flight", "capture:book"],
+    ]);
+    expect(log).toEqual([
+      "book flight",
+      "book hotel",
+      "cancel hotel-1",
+      "cancel flight-1",
+    ]);
+  });
+});
+
+describe("map node", () => {
+  const workflow = () =>
+    WorkflowBuilder.create()
+      .addNode({ key: "orders", schema: t.Array(t.String()) }, () => [
+        "book",
+        "pen",
+      ])
+      .addMapNode(
+        { key: "approvals", over: "orders", schema: t.String() },
+        ({ step }, order, index) => {
+          const approved = step<boolean>({
+            key: "approve",
+            title: order,
+            schema: t.Boolean(),
+          });
+          return `${index}:${order}:${approved}`;
+        },
+      )
+      .addNode(
+        { key: "summary", deps: ["approvals"], schema: t.String() },
+        ({ get }) => get("approvals").join(","),
+      )
+      .build();
+
+  test("interrupts every item on its own", async () => {
+    const instance = workflow();
+    const res1 = await instance.run([
+      { k: ["approvals", "1", "approve"], ts: 0, v: false },
+    ]);
+    expect(res1.approvals?.status).toBe("intr");
+    const items = res1.approvals?.status === "intr" ? res1.approvals.items : [];
+    expect(items).toMatchObject([
+      { status: "intr", step: { key: ["approvals", "0", "approve"] } },
+      { status: "done", value: "1:pen:false" },
+    ]);
+    expect(res1.summary?.status).toBe("pending");
+
+    const res2 = await instance.run([
+      { k: ["approvals", "0", "approve"], ts: 0, v: true },
+    ]);
+    expect(res2.approvals?.status === "done" && res2.approvals.value).toEqual([
+      "0:book:true",
+      "1:pen:false",
+    ]);
+    expect(res2.summary?.status === "done" && res2.summary.value).toBe(
+      "0:book:true,1:pen:false",
+    );
+    expect(instance.toJSON().events.approvals?.map((e) => e.k)).toEqual([
+      ["approvals", "1", "approve"],
+      ["approvals", "0", "approve"],
+    ]);
+  });
+
+  test("respects the concurrency limit for items", async () => {
+    const log: string[] = [];
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "ids", schema: t.Array(t.Number()) }, () => [1, 2, 3])
+      .addMapNode(
+        { key: "fetched", over: "ids", schema: t.Number() },
+        ({ capture }, id) =>
+          capture({ key: "fetch", schema: t.Number() }, async () => {
+            log.push(`start ${id}`);
+            await sleep(5);
+            log.push(`end ${id}`);
+            return id;
+          }),
+      )
+      .build();
+    const res = await workflow.dryRun([], { concurrency: 1 });
+    expect(log).toEqual([
+      "start 1",
+      "end 1",
+      "start 2",
+      "end 2",
+      "start 3",
+      "end 3",
+    ]);
+    expect(res.values.fetched).toEqual({ status: "done", value: [1, 2, 3] });
+  });
+
+  test("fails with the error of an item", async () => {
+    const failing = WorkflowBuilder.create()
+      .addNode({ key: "numbers", schema: t.Array(t.Number()) }, () => [1, 0])
+      .addMapNode(
+        { key: "inverse", over: "numbers", schema: t.Number() },
+        (_ctx, n) => {
+          if (n === 0) throw new Error("division by zero");
+          return 1 / n;
+        },
+      )
+      .build();
+    const res = await failing.run();
+    expect(res.inverse).toMatchObject({
+      status: "err",
+      error: new Error("division by zero"),
+      items: [{ status: "done", value: 1 }, { status: "err" }],
+    });
+  });
+});
+
+describe("seeded random", () => {
+  const dice = () =>
+    WorkflowBuilder.create()
+      .addNode(
+        { key: "rolls", schema: t.Array(t.Number()) },
+        ({ randomInt }) => [randomInt(1, 7), randomInt(1, 7), randomInt(1, 7)],
+      )
+      .addNode({ key: "id", schema: t.String() }, ({ uuid }) => uuid())
+      .build();
+
+  test("draws the same numbers for the same seed", async () => {
+    const a = dice();
+    const b = dice();
+    const resA = await a.run([], { seed: 42 });
+    const resB = await b.run([], { seed: 42 });
+    expect(resA).toEqual(resB);
+    const rolls = resA.rolls?.status === "done" ? resA.rolls.value : [];
+    for (const roll of rolls) {
+      expect(roll).toBeGreaterThanOrEqual(1);
+      expect(roll).toBeLessThan(7);
+    }
+    expect(resA.id?.status === "done" && resA.id.value).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+    // Only the seed is recorded
+    expect(a.toJSON().events).toEqual({
+      $seed: [{ k: ["$seed"], v: "42", ts: expect.any(Number) }],
+    });
+  });
+
+  test("keeps the recorded seed", async () => {
+    const workflow = dice();
+    const res1 = await workflow.run();
+    const res2 = await workflow.run([], { seed: "other" });
+    expect(res2).toEqual(res1);
+    expect(workflow.toJSON().events.$seed).toHaveLength(1);
+  });
+
+  test("draws the same numbers when resuming a saga snapshot", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode(
+        { key: "draws", schema: t.Array(t.Number()) },
+        ({ random }): number[] => [random()],
+        (ctx, value) => {
+          ctx.step({ key: "tick", schema: t.Null() });
+          return ["cont", [...value, ctx.random(), ctx.random()]];
+        },
+      )
+      .build();
+    let res: Awaited<ReturnType<typeof workflow.run>> = {};
+    for (let i = 0; i < 3; i++) {
+      res = await workflow.run([{ k: ["draws", "tick"], ts: 0, v: null }]);
+    }
+    const state = workflow.toJSON();
+    expect(Object.keys(state.snapshots)).toEqual(["draws"]);
+    // The snapshot holds the number of the interrupted iteration
+    expect(state.snapshots.draws?.[2]).toBe(3);
+
+    const replayed = await Workflow.restore(workflow, {
+      ...state,
+      snapshots: {},
+    }).run();
+    expect(replayed.draws).toEqual(res.draws);
+    expect(res.draws?.status === "intr" && res.draws.value).toHaveLength(7);
+  });
+
+  test("draws different numbers in saga iterations without events", async () => {
+    const flip = (iterations: number[]) =>
+      WorkflowBuilder.create()
+        .addNode(
+          { key: "coin", schema: t.String() },
+          () => "tails",
+          (ctx, value) => {
+            iterations.push(iterations.length);
+            return [ctx.random() < 0.3 ? "halt" : "cont", value];
+          },
+        )
+        .build();
+    const iterations: number[] = [];
+    // The timeout cancels the saga if it loops forever
+    const res = await flip(iterations).run([], { seed: 42, timeout: 1_000 });
+    expect(res.coin?.status).toBe("done");
+
+    const replayed: number[] = [];
+    await flip(replayed).run([], { seed: 42, timeout: 1_000 });
+    expect(replayed).toEqual(iterations);
+  });
+
+  test("draws different numbers in each embedding of a child", async () => {
+    const child = WorkflowBuilder.create()
+      .addNode({ key: "key", schema: t.String() }, ({ uuid }) => uuid())
+      .build();
+    const workflow = WorkflowBuilder.create()
+      .addSubworkflow({ key: "p1", workflow: child, output: "key" })
+      .addSubworkflow({ key: "p2", workflow: child, output: "key" })
+      .build();
+    const res = await workflow.run([], { seed: 42 });
+    const key1 = res.p1?.status === "done" && res.p1.value;
+    const key2 = res.p2?.status === "done" && res.p2.value;
+    expect(key1).toBeString();
+    expect(key1).not.toBe(key2);
+    expect(await workflow.run()).toEqual(res);
+  });
+
+  test("replays random numbers recorded before seeding", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "value", schema: RandomSchema }, ({ random }) => random())
+      .build();
+    const instance = Workflow.restore(workflow, {
+      version: 1,
+      events: { value: [{ k: ["value", "capture:random"], v: 0.25, ts: 0 }] },
+      snapshots: {},
+    });
+    const res = await instance.run();
+    expect(res.value?.status === "done" && res.value.value).toBe(0.25);
+  });
+});
+
+describe("diagrams", () => {
+  const workflow = WorkflowBuilder.create()
+    .addGroup("billing")
+    .addNode({ key: "cart", schema: t.Number() }, () => 30)
+    .addNode(
+      {
+        key: "pay",
+        title: 'Pay "now"',
+        group: "billing",
+        deps: ["cart"],
+        schema: t.Number(),
+      },
+      ({ get }) => get("cart"),
+      (ctx, value) => {
+        ctx.step({ key: "refund", schema: t.Null() });
+        return ["cont", value];
+      },
+    )
+    .build();
+
+  test("renders Mermaid flowcharts", async () => {
+    expect(workflow.toMermaid()).toBe(dedent`
+      flowchart TD
+        node0["cart"]
+        subgraph group1 ["billing"]
+          node1[["Pay #quot;now#quot;"]]
+        end
+        node0 --> node1
+    `);
+    const res = await workflow.dryRun([]);
+    expect(workflow.toMermaid(res.values).split("\n").slice(-4)).toEqual([
+      "  classDef done fill:#dcfce7,stroke:#16a34a",
+      "  class node0 done",
+      "  classDef intr fill:#fef3c7,stroke:#d97706",
+      "  class node1 intr",
+    ]);
+  });
+
+  test("labels nodes whose keys are not Mermaid ids", () => {
+    const keywords = WorkflowBuilder.create()
+      .addNode({ key: "node1", schema: t.Number() }, () => 1)
+      .addNode({ key: "class", deps: ["node1"], schema: t.Number() }, () => 2)
+      .addNode({ key: "end", deps: ["class"], schema: t.Number() }, () => 3)
+      .build();
+    expect(keywords.toMermaid()).toBe(dedent`
+      flowchart TD
+        node0["node1"]
+        node1["class"]
+        node2["end"]
+        node0 --> node1
+        node1 --> node2
+    `);
+  });
+
+  test("renders Graphviz DOT", async () => {
+    const res = await workflow.dryRun([]);
+    expect(workflow.toDot(res.values)).toBe(dedent`
+      digraph workflow {
+        node [shape=box, style="rounded,filled", fillcolor="white"];
+        "cart" [label="cart", fillcolor="#dcfce7", color="#16a34a"];
+        subgraph cluster_1 {
+          label="billing";
+          "pay" [label="Pay \"now\"", peripheries=2, fillcolor="#fef3c7", color="#d97706"];
+        }
+        "cart" -> "pay";
+      }
+    `);
+  });
+});
+
+describe("inbox", () => {
+  test("lists inputs, signals and timers by due time", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "review", schema: t.String() }, ({ step }) =>
+        step({
+          key: "approve",
+          title: "Approve the order",
+          deadline: 5_000,
+          schema: t.String(),
+          inputs: [{ key: ["order"], type: "json", content: { id: 1 } }],
+        }),
+      )
+      .addNode({ key: "reminder", schema: t.Boolean() }, ({ waitUntil }) => {
+        waitUntil(3_000);
+        return true;
+      })
+      .addNode({ key: "shipping", schema: t.String() }, ({ waitForSignal }) =>
+        waitForSignal("shipped", t.String()),
+      )
+      .addNode({ key: "items", schema: t.Array(t.String()) }, () => ["a", "b"])
+      .addMapNode(
+        { key: "checks", over: "items", schema: t.Boolean() },
+        ({ step }) => step({ key: "check", schema: t.Boolean() }),
+      )
+      .build();
+    const res = await workflow.run([], { now: () => 1_000 });
+
+    expect(workflow.inbox(res)).toEqual([
+      {
+        node: "reminder",
+        key: ["reminder", "waitUntil"],
+        kind: "timer",
+        waitUntil: 3_000,
+      },
+      {
+        node: "review",
+        key: ["review", "approve"],
+        title: "Approve the order",
+        kind: "input",
+        inputs: [{ key: ["order"], type: "json", content: { id: 1 } }],
+        schema: t.String(),
+        deadline: 5_000,
+        event: { k: ["review", "approve"], i: [["order"]] },
+      },
+      {
+        node: "shipping",
+        key: ["shipping", "signal:shipped"],
+        kind: "signal",
+        signal: "shipped",
+        inputs: [],
+        schema: t.String(),
+        event: { k: ["shipping", "signal:shipped"] },
+      },
+      expect.objectContaining({ key: ["checks", "0", "check"] }),
+      expect.objectContaining({ key: ["checks", "1", "check"] }),
+    ]);
+
+    const [, review] = workflow.inbox(res);
+    if (review?.kind !== "input") throw new Error("Expected an input");
+    const res2 = await workflow.run(
+      [{ ...review.event, v: "yes", ts: 1_000 }],
+      { now: () => 1_000 },
+    );
+    expect(res2.review?.status === "done" && res2.review.value).toBe("yes");
+    expect(workflow.inbox(res2)).toHaveLength(4);
+  });
+});
+
+describe("checkpoints", () => {
+  const build = (calls: string[]) =>
+    WorkflowBuilder.create()
+      .addNode({ key: "a", schema: t.Number() }, ({ step }) =>
+        parse(t.Number(), step({ key: "a", schema: t.Number() })),
+      )
+      .addNode(
+        { key: "b", deps: ["a"], schema: t.Number() },
+        ({ get, capture }) => {
+          calls.push("b");
+          const a = parse(t.Number(), get("a"));
+          return capture({ key: "double", schema: t.Number() }, () => a * 2);
+        },
+      )
+      .build();
+
+  test("skips done nodes while their dependencies are unchanged", async () => {
+    const calls: string[] = [];
+    const workflow = build(calls);
+    await workflow.run([{ k: ["a", "a"], v: 1, ts: 0 }], { checkpoint: true });
+    expect(workflow.toJSON().snapshots.b).toEqual([1, 2, expect.any(String)]);
+
+    const res = await workflow.run([], { checkpoint: true });
+    expect(res.b?.status === "done" && res.b.value).toBe(2);
+    expect(calls).toEqual(["b"]);
+
+    // Checkpoints are still used when they are not recorded
+    await workflow.run();
+    expect(calls).toEqual(["b"]);
+  });
+
+  test("executes nodes again when a dependency changes", async () => {
+    const calls: string[] = [];
+    const workflow = build(calls);
+    await workflow.run([{ k: ["a", "a"], v: 1, ts: 0 }], { checkpoint: true });
+    // Replace the recorded value of `a`
+    const state = workflow.toJSON();
+    state.events.a = [{ k: ["a", "a"], v: 5, ts: 0 }];
+    state.events.b = [];
+    state.snapshots = _.omit(state.snapshots, "a");
+    const changed = Workflow.restore(workflow, state);
+
+    const res = await changed.run();
+    expect(res.b?.status === "done" && res.b.value).toBe(10);
+    expect(calls).toEqual(["b", "b"]);
+    expect(changed.toJSON().snapshots.b).toBeUndefined();
+  });
+
+  test("compacts the events covered by checkpoints", async () => {
+    const calls: string[] = [];
+    const store = new InMemoryEventStore();
+    const workflow = await build(calls).rehydrate(store, "compact");
+    await workflow.run([{ k: ["a", "a"], v: 1, ts: 0 }], { checkpoint: true });
+
+    expect(await workflow.compact()).toBe(2);
+    expect(await workflow.compact()).toBe(0);
+    expect((await store.load("compact"))?.events).toEqual([]);
+
+    const restored = await build(calls).rehydrate(store, "compact");
+    const res = await restored.run();
+    expect(res.a?.status === "done" && res.a.value).toBe(1);
+    expect(res.b?.status === "done" && res.b.value).toBe(2);
+    expect(calls).toEqual(["b"]);
+    expect(Workflow.restore(restored, restored.toJSON()).toJSON()).toEqual(
+      restored.toJSON(),
+    );
+  });
+
+  test("drops the signals consumed by compacted nodes", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "approval", schema: t.String() }, ({ waitForSignal }) =>
+        waitForSignal("approve", t.String()),
+      )
+      .build();
+    await workflow.signal("approve", "first", 0);
+    await workflow.signal("approve", "second", 0);
+    await workflow.run([], { checkpoint: true });
+
+    expect(await workflow.compact()).toBe(2);
+    expect(workflow.toJSON().events.$signal).toEqual([
+      { k: ["$signal", "approve"], v: "second", ts: 0 },
+    ]);
+    const res = await workflow.run();
+    expect(res.approval?.status === "done" && res.approval.value).toBe("first");
+  });
+
+  test("drops the checkpoint of a node that is executed again", async () => {
+    let captures = 0;
+    const workflow = WorkflowBuilder.create()
+      .addNode(
+        { key: "a", schema: t.Number() },
+        () => 1,
+        (ctx, value) => {
+          ctx.step({ key: "tick", schema: t.Null() });
+          return ["cont", value + 1];
+        },
+      )
+      .addNode(
+        { key: "b", deps: ["a"], schema: t.Number() },
+        ({ get, capture, step }) => {
+          const a = parse(t.Number(), get("a"));
+          const value = capture({ key: "fetch", schema: t.Number() }, () => {
+            captures += 1;
+            return a;
+          });
+          if (a > 1) step({ key: "confirm", schema: t.Null() });
+          return value;
+        },
+      )
+      .build();
+    await workflow.run([], { checkpoint: true });
+    expect(workflow.toJSON().snapshots.b).toEqual([1, 1, expect.any(String)]);
+
+    // `b` is executed again and waits for `confirm`
+    const res = await workflow.run([{ k: ["a", "tick"], v: null, ts: 0 }], {
+      checkpoint: true,
+    });
+    expect(res.b?.status).toBe("intr");
+    expect(workflow.toJSON().snapshots.b).toBeUndefined();
+
+    await workflow.compact();
+    const final = await workflow.run([{ k: ["b", "confirm"], v: null, ts: 0 }]);
+    expect(final.b?.status === "done" && final.b.value).toBe(1);
+    expect(captures).toBe(1);
+  });
+});
+
+describe("interceptors", () => {
+  test("reports the lifecycle of runs and nodes", async () => {
+    const log: string[] = [];
+    const interceptor: WorkflowInterceptor = {
+      onRunStart: ({ nodes, replay }) => log.push(`run ${nodes} ${replay}`),
+      onNodeStart: ({ node }) => log.push(`start ${node}`),
+      onNodeResult: ({ node, result }) =>
+        log.push(`result ${node} ${result.status}`),
+      onEventConsumed: ({ event, fresh }) =>
+        log.push(`event ${event.k.join("/")} ${fresh}`),
+      onCapture: ({ key, value }) => log.push(`capture ${key} ${value}`),
+      onInterrupt: ({ step }) => log.push(`interrupt ${step.key}`),
+    };
+    const workflow = WorkflowBuilder.create()
+      .addInterceptor(interceptor)
+      .addNode({ key: "a", schema: t.Number() }, ({ capture }) =>
+        capture({ key: "one", schema: t.Number() }, async () => 1),
+      )
+      .addNode({ key: "b", deps: ["a"], schema: t.Number() }, ({ step }) =>
+        parse(t.Number(), step({ key: "input", schema: t.Number() })),
+      )
+      .build();
+
+    await workflow.run();
+    expect(log).toEqual([
+      "run a,b false",
+      "start a",
+      "capture a,capture:one 1",
+      "event a/capture:one true",
+      "result a done",
+      "start b",
+      "interrupt b,input",
+      "result b intr",
+    ]);
+
+    log.length = 0;
+    const runLog: string[] = [];
+    await workflow.run([{ k: ["b", "input"], v: 2, ts: 0 }], {
+      interceptors: [{ onNodeResult: ({ node }) => runLog.push(node) }],
+    });
+    expect(log).toEqual([
+      "run a,b false",
+      "start a",
+      "event a/capture:one false",
+      "result a done",
+      "start b",
+      "event b/input true",
+      "result b done",
+    ]);
+    expect(runLog).toEqual(["a", "b"]);
+  });
+
+  test("wraps captured functions, first interceptor outermost", async () => {
+    const log: string[] = [];
+    const wrap = (name: string): WorkflowInterceptor => ({
+      wrapCapture: (info, next) => {
+        log.push(`${name} ${info.key.join("/")}`);
+        try {
+          return next();
+        } finally {
+          log.push(`/${name}`);
+        }
+      },
+    });
+    const workflow = WorkflowBuilder.create()
+      .addInterceptor(wrap("outer"))
+      .addNode({ key: "a", schema: t.Number() }, ({ capture }) =>
+        capture({ key: "one", schema: t.Number() }, () => 1),
+      )
+      .build();
+
+    const res = await workflow.run([], { interceptors: [wrap("inner")] });
+    expect(res.a?.status === "done" && res.a.value).toBe(1);
+    expect(log).toEqual([
+      "outer a/capture:one",
+      "inner a/capture:one",
+      "/inner",
+      "/outer",
+    ]);
+
+    // Replays do not call the captured function
+    await workflow.run();
+    expect(log).toHaveLength(4);
+  });
+
+  test("ignore errors thrown by hooks", async () => {
+    const results: string[] = [];
+    const throwing: WorkflowInterceptor = {
+      onNodeStart: () => {
+        throw new Error("start failed");
+      },
+      onCapture: () => {
+        throw new Error("capture failed");
+      },
+      onNodeResult: () => {
+        throw new Error("result failed");
+      },
+    };
+    const workflow = WorkflowBuilder.create()
+      .addInterceptor(throwing)
+      .addNode({ key: "a", schema: t.Number() }, ({ capture }) =>
+        capture({ key: "one", schema: t.Number() }, () => 1),
+      )
+      .addNode(
+        { key: "b", deps: ["a"], schema: t.Number() },
+        ({ get }) => parse(t.Number(), get("a")) + 1,
+      )
+      .build();
+
+    const res = await workflow.run([], {
+      interceptors: [{ onNodeResult: ({ node }) => results.push(node) }],
+    });
+    expect(res.b?.status === "done" && res.b.value).toBe(2);
+    expect(results).toEqual(["a", "b"]);
+    expect(workflow.isRunning).toBe(false);
+    expect((await workflow.run()).b?.status).toBe("done");
+  });
+});
+
+describe("errors", () => {
+  test("serialize with their fields and revive by name", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "charge", schema: t.Number() }, ({ capture }) =>
+        capture({ key: "card", schema: t.Number() }, (): number => {
+          throw new Error("declined");
+        }),
+      )
+      .build();
+    const res = await workflow.run();
+    const json = JSON.parse(JSON.stringify(res));
+    expect(json.charge).toEqual({
+      status: "err",
+      error: {
+        name: "CaptureFailedError",
+        message: "Capture charge,capture:card failed after 1 attempt: declined",
+        node: "charge",
+        step: ["charge", "capture:card"],
+        attempts: 1,
+        cause: { name: "Error", message: "declined" },
+      },
+    });
+
+    const revived = WorkflowError.fromJSON(json.charge.error);
+    expect(revived).toBeInstanceOf(CaptureFailedError);
+    expect(revived).toMatchObject({ node: "charge", attempts: 1 });
+    const unknown = WorkflowError.fromJSON({ name: "TypeError", message: "x" });
+    expect(unknown).toBeInstanceOf(Error);
+    expect(unknown).not.toBeInstanceOf(WorkflowError);
+    expect(unknown.message).toBe("x");
+  });
+
+  test("reject concurrent runs of the same instance", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "slow", schema: t.Number() }, ({ capture }) =>
+        capture({ key: "wait", schema: t.Number() }, () =>
+          sleep(10).then(() => 1),
+        ),
+      )
+      .build()
+      .attach(new InMemoryEventStore(), "busy");
+    const first = workflow.run();
+    const error = await workflow.run().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AlreadyRunningError);
+    expect(error).toMatchObject({ id: "busy" });
+    await first;
+  });
+
+  test("time out with the timeout of the run", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode(
+        { key: "loop", schema: t.Number() },
+        (): number => 0,
+        (ctx, value) => ["cont", value + 1],
+      )
+      .build();
+    const error = await workflow.run([], { timeout: 20 }).catch((e) => e);
+    expect(error).toBeInstanceOf(WorkflowTimeoutError);
+    expect(error.toJSON()).toEqual({
+      name: "WorkflowTimeoutError",
+      message: "Timeout",
+      timeout: 20,
+    });
+  });
+});
+
+describe("step timeouts", () => {
+  const approval = (onTimeout: string) =>
+    WorkflowBuilder.create()
+      .addNode({ key: "review", schema: t.String() }, ({ step }) =>
+        step({
+          key: "approve",
+          schema: t.String(),
+          deadline: 5_000,
+          onTimeout,
+        }),
+      )
+      .build();
+
+  test("resolves to the default once the deadline passes", async () => {
+    const workflow = approval("auto-approved");
+    const res1 = await workflow.run([], { now: () => 1_000 });
+    expect(res1.review).toMatchObject({
+      status: "intr",
+      waitUntil: 5_000,
+      step: { key: ["review", "approve"], schema: t.String() },
+    });
+    expect(workflow.inbox(res1)).toEqual([
+      expect.objectContaining({ kind: "input", deadline: 5_000 }),
+    ]);
+
+    const res2 = await workflow.run([], { now: () => 6_000 });
+    expect(res2.review?.status === "done" && res2.review.value).toBe(
+      "auto-approved",
+    );
+    expect(workflow.toJSON().events.review).toEqual([
+      { k: ["review", "timeout:approve"], v: null, ts: 6_000 },
+    ]);
+
+    // The timeout is recorded, a late value is ignored
+    const res3 = await workflow.run(
+      [{ k: ["review", "approve"], v: "rejected", ts: 7_000 }],
+      { now: () => 7_000 },
+    );
+    expect(res3.review?.status === "done" && res3.review.value).toBe(
+      "auto-approved",
+    );
+  });
+
+  test("skips a late value without recording it", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "review", schema: t.String() }, ({ step }) => {
+        const decision = step({
+          key: "approve",
+          schema: t.String(),
+          deadline: 5_000,
+          onTimeout: "auto-approved",
+        });
+        const note = step({ key: "note", schema: t.String() });
+        return `${decision}: ${note}`;
+      })
+      .build();
+    await workflow.run([], { now: () => 6_000 });
+
+    const res = await workflow.run(
+      [
+        { k: ["review", "approve"], v: "rejected", ts: 7_000 },
+        { k: ["review", "note"], v: "late", ts: 7_000 },
+      ],
+      { now: () => 7_000 },
+    );
+    expect(res.review?.status === "done" && res.review.value).toBe(
+      "auto-approved: late",
+    );
+    expect(workflow.toJSON().events.review).toEqual([
+      { k: ["review", "timeout:approve"], v: null, ts: 6_000 },
+      { k: ["review", "note"], v: "late", ts: 7_000 },
+    ]);
+  });
+
+  test("takes a value submitted before the deadline", async () => {
+    const workflow = approval("auto-approved");
+    const res = await workflow.run(
+      [{ k: ["review", "approve"], v: "rejected", ts: 1_000 }],
+      { now: () => 6_000 },
+    );
+    expect(res.review?.status === "done" && res.review.value).toBe("rejected");
+  });
+
+  test("fails the node with onTimeout error", async () => {
+    const workflow = approval("error");
+    const res = await workflow.run([], { now: () => 6_000 });
+    const error = res.review?.status === "err" && res.review.error;
+    expect(error).toBeInstanceOf(StepTimeoutError);
+    expect(error).toMatchObject({
+      node: "review",
+      step: ["review", "approve"],
+      deadline: 5_000,
+    });
+  });
+});
+
+describe("conditional nodes", () => {
+  test("skips branches and their dependents", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "amount", schema: t.Number() }, ({ step }) =>
+        parse(t.Number(), step({ key: "amount", schema: t.Number() })),
+      )
+      .addNode(
+        {
+          key: "approval",
+          deps: ["amount"],
+          when: ({ get }) => parse(t.Number(), get("amount")) > 100,
+          schema: t.Boolean(),
+        },
+        ({ step }) =>
+          parse(t.Boolean(), step({ key: "approve", schema: t.Boolean() })),
+      )
+      .addNode(
+        { key: "notify", deps: ["approval"], schema: t.String() },
+        () => "approved",
+      )
+      .addNode(
+        {
+          key: "payout",
+          deps: ["amount", "approval"],
+          onSkippedDependency: "undefined",
+          schema: t.String(),
+        },
+        ({ get }) =>
+          get("approval") === false ? "declined" : `paid ${get("amount")}`,
+      )
+      .build();
+
+    const small = await workflow.run([
+      { k: ["amount", "amount"], v: 50, ts: 0 },
+    ]);
+    expect(small.approval).toEqual({ status: "skipped" });
+    expect(small.notify).toEqual({ status: "skipped" });
+    expect(small.payout).toEqual({ status: "done", value: "paid 50" });
+    expect(workflow.toMermaid(small)).toContain("class node1,node2 skipped");
+
+    const large = workflow.spawn();
+    const res = await large.run([{ k: ["amount", "amount"], v: 500, ts: 0 }]);
+    expect(res.approval?.status).toBe("intr");
+    expect(res.payout?.status).toBe("pending");
+  });
+
+  test("aggregates skipped nodes per group", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addGroup("extras")
+      .addNode(
+        { key: "gift", group: "extras", when: () => false, schema: t.String() },
+        () => "wrap",
+      )
+      .build();
+    const res = await workflow.run();
+    expect(workflow.groupStatus(res).extras).toMatchObject({
+      status: "skipped",
+      counts: { skipped: 1, done: 0 },
+    });
+  });
+});
+
+describe("time travel", () => {
+  const checkout = () => {
+    let charges = 0;
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "cart", schema: t.Number() }, ({ step }) =>
+        parse(t.Number(), step({ key: "total", schema: t.Number() })),
+      )
+      .addNode(
+        { key: "charge", deps: ["cart"], schema: t.String() },
+        ({ get, capture }) =>
+          capture({ key: "card", schema: t.String() }, () => {
+            charges += 1;
+            return `charged ${get("cart")}`;
+          }),
+      )
+      .build();
+    return { workflow, charges: () => charges };
+  };
+
+  test("replays an instance up to an event of its history", async () => {
+    const { workflow, charges } = checkout();
+    await workflow.run([{ k: ["cart", "total"], v: 10, ts: 1 }], {
+      now: () => 2,
+    });
+    expect(workflow.history()).toEqual([
+      { k: ["cart", "total"], v: 10, ts: 1 },
+      { k: ["charge", "capture:card"], v: "charged 10", ts: 2 },
+    ]);
+
+    const start = await workflow.replay({ until: 0 });
+    expect(start.values.cart?.status).toBe("intr");
+    expect(start.values.charge).toEqual({ status: "pending", nodes: ["cart"] });
+
+    // The capture is not called again, its node waits for the recorded value
+    const before = await workflow.replay({ until: 1 });
+    expect(before.values.cart).toEqual({ status: "done", value: 10 });
+    expect(before.values.charge?.status).toBe("intr");
+    expect(before.events).toHaveLength(1);
+    expect(charges()).toBe(1);
+
+    const after = await workflow.replay();
+    expect(after.values.charge).toEqual({
+      status: "done",
+      value: "charged 10",
+    });
+    expect(diffRuns(before, after)).toEqual({
+      nodes: [
+        {
+          node: "charge",
+          a: before.values.charge!,
+          b: { status: "done", value: "charged 10" },
+        },
+      ],
+      events: [
+        {
+          node: "charge",
+          a: [],
+          b: [expect.objectContaining({ k: ["charge", "capture:card"] })],
+        },
+      ],
+    });
+  });
+
+  test("keeps the order of the events of a node", async () => {
+    const workflow = WorkflowBuilder.create()
+      .addNode({ key: "a", schema: t.String() }, ({ step, capture }) => {
+        step({ key: "ask", schema: t.Boolean() });
+        return capture({ key: "fetch", schema: t.String() }, () => "fetched");
+      })
+      .addNode({ key: "b", schema: t.Boolean() }, ({ step }) =>
+        parse(t.Boolean(), step({ key: "ok", schema: t.Boolean() })),
+      )
+      .build();
+    await workflow.run(
+      [
+        { k: ["a", "ask"], v: true, ts: 2_000 },
+        { k: ["b", "ok"], v: true, ts: 1_500 },
+      ],
+      { now: () => 1_000 },
+    );
+
+    expect(workflow.history().map((e) => [e.k.join("/"), e.ts])).toEqual([
+      ["b/ok", 1_500],
+      ["a/ask", 2_000],
+      ["a/capture:fetch", 1_000],
+    ]);
+    const res = await workflow.replay();
+    expect(res.values.a).toEqual({ status: "done", value: "fetched" });
+  });
+
+  test("diffs the histories of two instances", async () => {
+    const { workflow } = checkout();
+    const a = workflow.spawn();
+    const b = workflow.spawn();
+    await a.run([{ k: ["cart", "total"], v: 10, ts: 0 }]);
+    await b.run([{ k: ["cart", "total"], v: 20, ts: 0 }]);
+
+    const diff = diffRuns(await a.replay(), await b.replay());
+    expect(diff.nodes.map(({ node, a, b }) => [node, a, b])).toEqual([
+      ["cart", { status: "done", value: 10 }, { status: "done", value: 20 }],
+      [
+        "charge",
+        { status: "done", value: "charged 10" },
+        { status: "done", value: "charged 20" },
+      ],
+    ]);
+    expect(diff.events.map(({ node }) => node)).toEqual(["cart", "charge"]);
+    expect(diffRuns(await a.replay(), await a.replay())).toEqual({
+      nodes: [],
+      events: [],
+    });
+  });
+});
+
+describe("migration", () => {
+  const before = WorkflowBuilder.create()
+    .addNode({ key: "order", schema: t.String() }, ({ step, capture }) => {
+      const address = parse(
+        t.String(),
+        step({ key: "addr", schema: t.String() }),
+      );
+      return capture(
+        { key: "ship", schema: t.String() },
+        () => `to ${address}`,
+      );
+    })
+    .build();
+  const after = WorkflowBuilder.create()
+    .addNode({ key: "purchase", schema: t.String() }, ({ step, capture }) => {
+      const address = parse(
+        t.String(),
+        step({ key: "address", schema: t.String() }),
+      );
+      return capture({ key: "ship", schema: t.String() }, (): string => {
+        throw new Error(`shipped to ${address} twice`);
+      });
+    })
+    .build();
+
+  test("renames nodes and steps after a dry run", async () => {
+    const store = new InMemoryEventStore();
+    await (await before.rehydrate(store, "order")).run([
+      { k: ["order", "addr"], v: "home", ts: 0 },
+    ]);
+
+    const instance = await after.rehydrate(store, "order");
+    const invalid = await instance
+      .migrate([{ renameNode: { from: "order", to: "purchase" } }])
+      .catch((e: unknown) => e);
+    expect(invalid).toBeInstanceOf(MigrationError);
+    expect(invalid).toMatchObject({
+      issues: [
+        {
+          node: "purchase",
+          message:
+            "Expected event purchase,address but got purchase,addr instead (node purchase, event 0)",
+        },
+      ],
+    });
+    expect(instance.history().map((e) => e.k[0])).toEqual(["order", "order"]);
+
+    await instance.migrate([
+      { renameNode: { from: "order", to: "purchase" } },
+      { renameStep: { node: "purchase", from: "addr", to: "address" } },
+    ]);
+    const res = await (await after.rehydrate(store, "order")).run();
+    expect(res.purchase).toEqual({ status: "done", value: "to home" });
+  });
+
+  test("keeps the order of the events of a node", async () => {
+    const instance = before.spawn();
+    await instance.run([{ k: ["order", "addr"], v: "home", ts: 2_000 }], {
+      now: () => 1_000,
+    });
+
+    await instance.migrate([
+      {
+        transformValue: {
+          node: "order",
+          step: "addr",
+          transform: (v) => `${v} address`,
+        },
+      },
+    ]);
+    expect(instance.toJSON().events.order?.map((e) => e.v)).toEqual([
+      "home address",
+      "to home",
+    ]);
+  });
+
+  test("drops steps and transforms values", () => {
+    const events: StepEvent[] = [
+      { k: ["order", "addr"], v: "home", ts: 0 },
+      { k: ["order", "capture:ship"], v: "to home", ts: 1 },
+      { k: ["order", "0", "legacy"], v: null, ts: 1 },
+      { k: ["$compensated", "order", "capture:ship"], v: null, ts: 2 },
+    ];
+    expect(
+      migrateEvents(events, [
+        { dropStep: { node: "order", step: "legacy" } },
+        {
+          transformValue: {
+            node: "order",
+            step: "addr",
+            transform: (v) => ({ street: v }),
+          },
+        },
+        {
+          renameStep: {
+            node: "order",
+            from: "capture:ship",
+            to: "capture:send",
+          },
+        },
+      ]),
+    ).toEqual([
+      { k: ["order", "addr"], v: { street: "home" }, ts: 0 },
+      { k: ["order", "capture:send"], v: "to home", ts: 1 },
+      { k: ["$compensated", "order", "capture:send"], v: null, ts: 2 },
+    ]);
+  });
+});
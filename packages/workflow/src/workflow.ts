@@ -1,38 +1,161 @@
+import { Value } from "@sinclair/typebox/value";
 import _ from "lodash";
-import isEqual from "lodash-es/isEqual";
-import { NowSchema, RandomSchema, WaitSchema } from "./schemas";
+import {
+  type Compensation,
+  InputInterrupt,
+  NodeContext,
+  type NodeExecution,
+  PromiseInterrupt,
+  type RunState,
+  notify,
+  validateStep,
+} from "./context";
+import { toDot, toMermaid } from "./diagram";
+import {
+  AlreadyRunningError,
+  CaptureFailedError,
+  MigrationError,
+  PromiseLimitError,
+  WorkflowTimeoutError,
+} from "./errors";
+import type { EventStore, Snapshot } from "./event-store";
+import { type InboxEntry, collectInbox } from "./inbox";
+import { type Migration, migrateEvents } from "./migration";
+import { hash53 } from "./random";
+import {
+  SeedSchema,
+  WORKFLOW_STATE_VERSION,
+  type WorkflowState,
+  WorkflowStateSchema,
+} from "./schemas";
+import { nextWakeUp } from "./timer-service";
 import type {
   DAGNode,
   FullStepContext,
+  MapNode,
   StepContext,
+  Subworkflow,
   Warning,
-  WorkflowContext,
+  WorkflowInterceptor,
 } from "./types";
 import { sleep } from "./utils";
 
 export interface RunOptions {
   timeout?: number;
   now?: () => number;
+  /**
+   * Maximum number of nodes executed at the same time, at least 1 (defaults
+   * to no limit). A node starts as soon as all of its dependencies have
+   * finished. The items of a map node are executed with the same limit.
+   */
+  concurrency?: number;
+  /**
+   * Cancels the run when aborted. The signal is passed on to the functions of
+   * `capture`, and the nodes that are still running get the status `cancelled`.
+   */
+  signal?: AbortSignal;
+  /**
+   * Runs `compensate()` when a node errs or the run is cancelled, so that the
+   * side effects of the captures are undone.
+   */
+  rollback?: boolean;
+  /**
+   * Seed of `random`, `randomInt` and `uuid`. The seed is recorded the first
+   * time an instance draws a random number, later seeds are ignored.
+   * Defaults to a random seed.
+   */
+  seed?: string | number;
+  /**
+   * Only executes the nodes of these groups and the nodes they depend on.
+   * Defaults to all nodes.
+   */
+  groups?: string[];
+  /**
+   * Records a checkpoint of every node that is done, except sagas: its value,
+   * its event cursor and a hash of the values of its dependencies. Later runs
+   * skip the node as long as its dependencies are unchanged.
+   */
+  checkpoint?: boolean;
+  /** Observes this run, after the interceptors registered on the builder */
+  interceptors?: WorkflowInterceptor[];
 }
 
-class InputInterrupt extends Error {
-  constructor(
-    public step: FullStepContext,
-    public waitUntil?: number,
-  ) {
-    super(`Interrupt at ${step}`); // (1)
-  }
-}
+/**
+ * The aggregated status of the nodes of a group, see `Workflow.groupStatus`,
+ * or of all nodes, see `Workflow.status`.
+ */
+export type GroupStatus = {
+  /**
+   * `err` if any node failed, else `intr` if any node is interrupted, else
+   * `cancelled` if any node was cancelled, else `pending` if any node is not
+   * done yet, else `skipped` if every node was skipped, else `done`.
+   */
+  status: "done" | "pending" | "intr" | "err" | "cancelled" | "skipped";
+  /** Number of nodes of the group by status, nodes without a result are pending */
+  counts: Record<Result<unknown>["status"], number>;
+  /** Keys of the aggregated nodes */
+  nodes: string[];
+};
 
-class PromiseInterrupt extends Error {
-  constructor(
-    public step: string,
-    public promise: Promise<unknown>,
-    public context: StepContext,
-  ) {
-    super(`Interrupt at ${step}`); // (1)
-  }
-}
+/** Key of the event stream holding the signals sent to an instance */
+const SIGNALS = "$signal";
+/** Key of the event stream recording the compensations that were run */
+const COMPENSATED = "$compensated";
+/** Key of the event stream holding the seed of `random` */
+const SEED = "$seed";
+/** Event streams that do not belong to a node */
+const STREAMS: string[] = [SIGNALS, COMPENSATED, SEED];
+
+/**
+ * Aggregates the results of the given nodes, see `GroupStatus`.
+ */
+const aggregate = (
+  nodes: string[],
+  results: Record<string, Result<unknown> | undefined>,
+): GroupStatus => {
+  const counts = _.countBy(nodes, (node) => results[node]?.status ?? "pending");
+  const status = (["err", "intr", "cancelled", "pending"] as const).find(
+    (s) => counts[s],
+  );
+  return {
+    status:
+      status ??
+      (nodes.length > 0 && counts.skipped === nodes.length
+        ? "skipped"
+        : "done"),
+    counts: {
+      done: counts.done ?? 0,
+      pending: counts.pending ?? 0,
+      intr: counts.intr ?? 0,
+      err: counts.err ?? 0,
+      cancelled: counts.cancelled ?? 0,
+      skipped: counts.skipped ?? 0,
+    },
+    nodes,
+  };
+};
+
+/**
+ * Tells a checkpoint from a saga snapshot, see `Snapshot`.
+ */
+const isCheckpoint = <V>(
+  snapshot: [number, V] | [number, V, number | string] | undefined,
+): snapshot is [number, V, string] => typeof snapshot?.[2] === "string";
+
+/**
+ * Creates the replay state of a node whose steps are keyed under `keys`.
+ */
+const newExecution = (keys: string[]): NodeExecution => ({
+  keys,
+  events: [],
+  stored: 0,
+  idx: 0,
+  consumed: [],
+  fresh: [],
+  compensations: [],
+  draws: { idx: 0, count: 0 },
+  warnings: [],
+});
 
 /**
  * Represents an interruption in the workflow execution due to a time-based condition.
@@ -86,12 +209,29 @@ export type StepEvent = Omit<StepEventWithContext, "c">;
  * - err: Indicates that an error occurred during the node's execution.
  * - intr: Indicates that the node's execution was interrupted, possibly due to
  *         a time-based condition or a need for additional input.
+ * - cancelled: Indicates that the run was cancelled or timed out while the
+ *              node was executing.
  */
 export type Result<T, Node extends string = string> =
   | { status: "pending"; nodes: Node[] }
   | { status: "done"; value: T }
-  | { status: "err"; error: Error }
-  | ({ status: "intr"; step: FullStepContext; value?: T; eventIdx?: number } & (
+  | { status: "err"; error: Error; items?: Result<unknown>[] }
+  | { status: "cancelled" }
+  /** The `when` condition of the node, or of a dependency, was not met */
+  | { status: "skipped" }
+  | ({
+      status: "intr";
+      step: FullStepContext;
+      value?: T;
+      eventIdx?: number;
+      /** Number of the saga iteration that starts at `eventIdx` */
+      iteration?: number;
+      /**
+       * The result of every item of a map node, or every interrupt of the
+       * child of a subworkflow node
+       */
+      items?: Result<unknown>[];
+    } & (
       | InterruptedUntil
       | InterruptedValue
       | (InterruptedUntil &
@@ -106,123 +246,56 @@ export type Result<T, Node extends string = string> =
  * @typeParam G - A string type representing the group names in the workflow.
  *
  * The Workflow class provides methods to:
- * - Execute nodes in topological order
+ * - Execute nodes concurrently, as soon as their dependencies are done
  * - Handle dependencies between nodes
  * - Manage interruptions and resumptions in node execution
  * - Capture and replay events for idempotency
  * - Perform dry runs and actual runs of the workflow
  *
- * It implements the WorkflowContext interface, providing utility methods
- * that can be used within node computations, such as `get`, `step`, `capture`,
- * `now`, `sleep`, `waitUntil`, and `random`.
+ * Nodes receive a `WorkflowContext` providing utility methods that can be
+ * used within node computations, such as `get`, `step`, `capture`, `now`,
+ * `sleep`, `waitUntil`, and `random`.
  */
 export class Workflow<
   T extends Record<string, DAGNode<unknown, string>>,
   G extends string = string,
-> implements WorkflowContext<T>
-{
+> {
   private events: { [K in keyof T]?: StepEvent[] } = {};
-  private snapshots: { [K in keyof T]?: [number, T[K]["value"]] } = {};
+  private snapshots: {
+    [K in keyof T]?:
+      | [number, T[K]["value"]]
+      | [number, T[K]["value"], number]
+      | [number, T[K]["value"], string];
+  } = {};
 
-  private tempResults: { [K in keyof T]?: Result<T[K]["value"]> } | null = null;
-  private tempNewEvents: { [K in keyof T]?: StepEventWithContext[] } | null =
-    null;
-  private newConsumedEvents: StepEventWithContext[] | null = null;
-  private tempRunOpts: RunOptions | null = null;
-  private tempWarnings: Warning[] | null = null;
+  /** Dependency hash of each node in the latest run, see `compact()` */
+  private hashes: { [K in keyof T]?: string } = {};
+  /** The signals that nodes wait for in the latest run, see `signal()` */
+  private awaitedSignals: InboxEntry[] = [];
 
-  private currentNode: keyof T | null = null;
-  private currentKeys: string[] = [];
+  /** The id of this instance in its event store, if attached to one */
+  id?: string;
+  private store?: EventStore;
 
   constructor(
     private nodes: T,
     private groups: Set<G>,
+    private interceptors: WorkflowInterceptor[] = [],
   ) {}
 
-  get = <K extends string>(key: K): T[K]["value"] => {
-    const result = this.tempResults?.[key];
-    return result?.status === "done"
-      ? result.value
-      : result?.status === "intr"
-        ? result.value
-        : undefined;
-  };
-
-  step = <T>(context: StepContext): T => {
-    throw new InputInterrupt({
-      ...context,
-      key: [...this.currentKeys, context.key],
-    });
-  };
-
-  addTempEvent = (
-    key: string,
-    newEvent: unknown,
-    context: StepContext<unknown>,
-  ): void => {
-    const event: StepEventWithContext = {
-      k: [...this.currentKeys, key],
-      v: newEvent,
-      c: context,
-      ts: this.getNow(),
-    };
-    this.tempNewEvents![this.currentNode!] ||= [];
-    this.tempNewEvents![this.currentNode!]!.push(event);
-    this.newConsumedEvents?.push(event);
-  };
-
-  capture = <T>(context: StepContext, fn: () => T | Promise<T>): T => {
-    const stepKey = `capture:${context.key}`;
-    try {
-      return this.step<T>({ ...context, key: stepKey });
-    } catch (e) {
-      if (e instanceof InputInterrupt) {
-        const newEvent = fn();
-        if (newEvent instanceof Promise) {
-          throw new PromiseInterrupt(stepKey, newEvent, context);
-        }
-        this.addTempEvent(stepKey, newEvent, context);
-        return newEvent;
-      }
-      throw e;
-    }
-  };
-
-  getNow = (): number =>
-    this.tempRunOpts?.now ? this.tempRunOpts.now() : Date.now();
-  now = (): number =>
-    this.capture({ key: "now", schema: NowSchema }, this.getNow);
-
-  sleep = (ms: number, context?: Partial<StepContext>): void => {
-    this.waitUntil(this.now() + ms, { key: "sleep", ...context });
-  };
-
-  waitUntil = (datetime: number, context?: Partial<StepContext>): void => {
-    if (this.getNow() < datetime)
-      throw new InputInterrupt(
-        {
-          schema: WaitSchema,
-          ...context,
-          key: [...this.currentKeys, "waitUntil"],
-        },
-        datetime,
-      );
-  };
-
-  random = (): number => {
-    return this.capture({ key: "random", schema: RandomSchema }, Math.random);
-  };
-
   private async executeNode<K extends keyof T>(
     key: K,
     events: StepEvent[],
+    run: RunState,
+    exec: NodeExecution,
   ): Promise<Result<T[K]["value"]>> {
     const node = this.nodes[key];
 
     const pending = this.nodes[key].dependencies.filter((n) => {
-      const result = this.tempResults?.[n];
+      const result = run.results[n];
       return !(
         result?.status === "done" ||
+        result?.status === "skipped" ||
         (result?.status === "intr" && result.value !== undefined)
       );
     });
@@ -231,63 +304,115 @@ export class Workflow<
       return { status: "pending", nodes: pending };
     }
 
-    let idx = 0;
-    const originalStep = this.step;
+    const skippedDependency = node.dependencies.some(
+      (n) => run.results[n]?.status === "skipped",
+    );
+    if (
+      (skippedDependency && node.onSkippedDependency !== "undefined") ||
+      (node.when && !node.when({ get: new NodeContext(run, exec).get }))
+    ) {
+      return { status: "skipped" };
+    }
+
+    const snapshot = this.snapshots[key];
+    if (
+      isCheckpoint(snapshot) &&
+      snapshot[2] === this.dependencyHash(key, run.results) &&
+      // Replays need the events of the node, unless they were compacted
+      (!run.replay || (this.events[key]?.length ?? 0) < snapshot[0])
+    ) {
+      exec.restored = true;
+      return { status: "done", value: snapshot[1] };
+    }
+
+    if (node.subworkflow) {
+      return this.executeSubworkflow(key, node.subworkflow, events, run, exec);
+    }
+    if (node.map) {
+      return this.executeMap(key, node.map, events, run, exec);
+    }
+    return this.replayNode(
+      node,
+      this.events[key] ?? [],
+      events,
+      run,
+      exec,
+      isCheckpoint(snapshot) ? undefined : snapshot,
+    );
+  }
+
+  /**
+   * Hashes the values of the dependencies of a node, to tell whether its
+   * checkpoint is still valid.
+   */
+  private dependencyHash(key: keyof T, results: RunState["results"]): string {
+    const values = this.nodes[key].dependencies.map((dep) => {
+      const result = results[dep];
+      return result?.status === "done" || result?.status === "intr"
+        ? result.value
+        : undefined;
+    });
+    return hash53(JSON.stringify(values)).toString(36);
+  }
+
+  /**
+   * Replays the events of a node through its compute and saga functions,
+   * until the node is done, interrupted, or fails.
+   */
+  private async replayNode<V>(
+    node: Pick<DAGNode<V, string>, "compute" | "saga">,
+    storedEvents: StepEvent[],
+    events: StepEvent[],
+    run: RunState,
+    exec: NodeExecution,
+    snapshot?: [number, V] | [number, V, number],
+  ): Promise<Result<V>> {
     let promiseCount = 0;
     const MAX_PROMISES = 1000;
+    let lastStep = "";
+    exec.events = [...storedEvents, ...events];
+    exec.stored = storedEvents.length;
     while (promiseCount < MAX_PROMISES) {
-      const allEvents = [
-        ...(this.events[key] ?? []),
-        ...events,
-        ...(this.tempNewEvents?.[key] ?? []),
-      ];
-      this.step = <T>(context: StepContext): T => {
-        if (idx < allEvents?.length) {
-          const event = allEvents[idx++];
-          const fullKey = [...this.currentKeys, context.key];
-          this.newConsumedEvents?.push({
-            ...event,
-            c: context,
-          });
-          if (isEqual(event.k, fullKey)) {
-            const eventInputKeys = event.i;
-            const currentInputKeys = context.inputs?.map((i) => i.key);
-
-            if (!_.isEqual(eventInputKeys, currentInputKeys)) {
-              this.tempWarnings?.push({
-                type: "context_updated",
-                step: fullKey,
-                context,
-              });
-            }
-
-            return event.v as T;
-          }
-          throw new Error(
-            `Expected event ${fullKey} but got ${event.k} instead`,
-          );
-        }
-        throw new InputInterrupt({
-          ...context,
-          key: [...this.currentKeys, context.key],
-        });
+      exec.idx = 0;
+      // Only the events consumed by the last replay of the node count
+      exec.consumed = [];
+      exec.compensations = [];
+      exec.draws = { idx: 0, count: 0 };
+      let startIdx = 0;
+      const settle = <R>(result: R): R => {
+        // Events before `storedEvents.length` are already in the log
+        exec.fresh = exec.consumed.slice(
+          Math.max(0, storedEvents.length - startIdx),
+        );
+        return result;
       };
-      let value: T[K]["value"] | undefined = undefined;
+      const ctx = new NodeContext(run, exec);
+      let value: V | undefined = undefined;
       let eventIdx = 0;
+      let iteration = 0;
       try {
-        const snapshot = this.snapshots[key];
-        if (node.saga && snapshot) {
-          idx = snapshot[0];
+        // Replays start from scratch, to replay the captures before the snapshot
+        if (node.saga && snapshot && !run.replay) {
+          exec.idx = startIdx = snapshot[0];
           value = snapshot[1];
+          iteration = snapshot[2] ?? 0;
         } else {
-          value = await node.compute(this);
+          value = await node.compute(ctx);
         }
 
         if (node.saga) {
           while (true) {
-            eventIdx = idx;
-            const [action, newValue] = node.saga(this, value);
-            if (this.tempRunOpts?.timeout) await sleep(0);
+            eventIdx = exec.idx;
+            // Draws restart with every iteration, like when resuming a
+            // snapshot, and differ between iterations that consume no events
+            exec.draws = { idx: exec.idx, count: 0, iteration, value };
+            const [action, newValue] = node.saga(ctx, value);
+            iteration += 1;
+            if (run.opts.timeout || run.opts.signal) {
+              await sleep(0);
+              // The run was cancelled while we were yielding
+              if (run.signal.aborted) return { status: "cancelled" };
+            }
             value = newValue;
             if (action === "halt") {
               break;
@@ -295,41 +420,225 @@ export class Workflow<
           }
         }
 
-        return { status: "done", value: value };
+        return settle({ status: "done", value: value });
       } catch (error) {
         if (error instanceof PromiseInterrupt) {
+          lastStep = error.step;
           try {
             const newEvent = await error.promise;
+            if (run.signal.aborted) return { status: "cancelled" };
             promiseCount += 1;
-            this.addTempEvent(error.step, newEvent, error.context);
-          } catch (error) {
-            if (error instanceof Error) {
-              // console.log(error);
-              return { status: "err", error };
+            const event = ctx.addTempEvent(error.step, newEvent, error.context);
+            notify(run, "onCapture", {
+              node: exec.keys[0],
+              key: event.k,
+              value: newEvent,
+            });
+          } catch (rejection) {
+            if (run.signal.aborted) return { status: "cancelled" };
+            // The failure is recorded, replay the node to schedule the retry
+            if (error.recover?.(rejection)) {
+              promiseCount += 1;
+              continue;
             }
-            return { status: "err", error: new Error("Unknown") };
+            return settle({
+              status: "err",
+              error: new CaptureFailedError(
+                exec.keys[0],
+                [...exec.keys, error.step],
+                error.attempt,
+                rejection,
+              ),
+            });
           }
         } else if (error instanceof InputInterrupt) {
-          return {
+          return settle({
             status: "intr",
             step: error.step,
             ...(error.waitUntil ? { waitUntil: error.waitUntil } : {}),
             ...(value ? { value } : {}),
-            ...(eventIdx ? { eventIdx } : {}),
-          };
+            ...(eventIdx ? { eventIdx, iteration } : {}),
+          });
         } else {
+          if (run.signal.aborted) return { status: "cancelled" };
           if (error instanceof Error) {
-            return { status: "err", error };
+            return settle({ status: "err", error });
           }
-          return { status: "err", error: new Error("Unknown") };
+          return settle({ status: "err", error: new Error("Unknown") });
         }
-      } finally {
-        this.step = originalStep;
       }
     }
     return {
       status: "err",
-      error: new Error("Too many promises in a single step!"),
+      error: new PromiseLimitError(
+        exec.keys[0],
+        [...exec.keys, lastStep],
+        MAX_PROMISES,
+      ),
+    };
+  }
+
+  /**
+   * Runs the item compute of a map node once for every item of its `over`
+   * dependency, with at most `run.opts.concurrency` items in flight. Each
+   * item replays its own events, whose keys have the index of the item after
+   * the key of the node.
+   */
+  private async executeMap<K extends keyof T>(
+    key: K,
+    map: MapNode,
+    events: StepEvent[],
+    run: RunState,
+    exec: NodeExecution,
+  ): Promise<Result<T[K]["value"]>> {
+    const over = new NodeContext(run, exec).get(map.over);
+    if (!Array.isArray(over)) {
+      return {
+        status: "err",
+        error: new Error(
+          `Map node ${String(key)} expects ${map.over} to be an array`,
+        ),
+      };
+    }
+    const storedEvents = this.events[key] ?? [];
+    const limit = run.opts.concurrency ?? over.length;
+    const execs: NodeExecution[] = [];
+    const results: Result<unknown>[] = [];
+    let next = 0;
+    const worker = async () => {
+      for (let index = next++; index < over.length; index = next++) {
+        const id = String(index);
+        const ofItem = (e: StepEvent) => e.k[1] === id;
+        execs[index] = newExecution([key as string, id]);
+        results[index] = await this.replayNode(
+          { compute: (ctx) => map.compute(ctx, over[index], index) },
+          storedEvents.filter(ofItem),
+          events.filter(ofItem),
+          run,
+          execs[index],
+        );
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(limit, over.length) }, worker),
+    );
+    for (const itemExec of execs) {
+      exec.consumed.push(...itemExec.consumed);
+      exec.fresh.push(...itemExec.fresh);
+      exec.compensations.push(...itemExec.compensations);
+      exec.warnings.push(...itemExec.warnings);
+    }
+
+    if (results.some((r) => r.status === "cancelled")) {
+      return { status: "cancelled" };
+    }
+    const failed = results.find((r) => r.status === "err");
+    if (failed) return { ...failed, items: results };
+    const interrupts = results.filter((r) => r.status === "intr");
+    if (interrupts[0]) {
+      const waitUntil = nextWakeUp(Object.fromEntries(interrupts.entries()));
+      return {
+        status: "intr",
+        step: interrupts[0].step,
+        ...(waitUntil !== undefined ? { waitUntil } : {}),
+        items: results,
+      };
+    }
+    return {
+      status: "done",
+      value: results.map((r) => (r.status === "done" ? r.value : undefined)),
+    };
+  }
+
+  /**
+   * Runs a fresh instance of the child workflow of a subworkflow node.
+   * The events of the node are the events of the child, with the key of the
+   * node prepended to their keys.
+   */
+  private async executeSubworkflow<K extends keyof T>(
+    key: K,
+    sub: Subworkflow,
+    events: StepEvent[],
+    run: RunState,
+    exec: NodeExecution,
+  ): Promise<Result<T[K]["value"]>> {
+    const prefix = <E extends { k: string[] }>(e: E): E => ({
+      ...e,
+      k: [key as string, ...e.k],
+    });
+    const strip = (e: StepEvent): StepEvent => ({ ...e, k: e.k.slice(1) });
+
+    const child = sub.workflow.spawn();
+    child.addEvents((this.events[key] ?? []).map(strip));
+    const inputs = sub.input?.({ get: new NodeContext(run, exec).get });
+    const { values, newEvents, freshEvents, warnings, compensations } =
+      await child.execute(
+        events.map(strip),
+        // The child is cancelled with the parent, including on its timeout
+        {
+          ...run.opts,
+          timeout: undefined,
+          signal: run.signal,
+          groups: undefined,
+          interceptors: undefined,
+        },
+        {
+          inputs,
+          signals: run.signals,
+          replay: run.replay,
+          random: run.random,
+          prefix: [...run.prefix, key as string],
+        },
+      );
+    // Fresh events are consumed events too, keep them the same objects
+    const prefixed = new Map(newEvents.map((e) => [e, prefix(e)]));
+    exec.consumed = [...prefixed.values()];
+    exec.fresh = freshEvents.map((e) => prefixed.get(e) ?? prefix(e));
+    exec.compensations = compensations.map((c) => ({
+      ...c,
+      key: [key as string, ...c.key],
+    }));
+    for (const warning of warnings ?? []) {
+      exec.warnings.push({
+        ...warning,
+        step: [key as string, ...warning.step],
+      });
+    }
+    const output = values[sub.output];
+    if (output?.status === "done" || output?.status === "skipped") {
+      return output;
+    }
+    const results = Object.values(values);
+    if (results.some((r) => r?.status === "cancelled")) {
+      return { status: "cancelled" };
+    }
+    const failed = results.find((r) => r?.status === "err");
+    if (failed) return failed;
+
+    // Bubble up every interrupt, including those of the items of child map
+    // nodes, and the earliest timer of the child
+    const interrupts = results
+      .flatMap((r) => (r?.status === "intr" ? (r.items ?? [r]) : []))
+      .filter((r) => r.status === "intr")
+      .map((r) => ({
+        ...r,
+        step: { ...r.step, key: [key as string, ...r.step.key] },
+      }));
+    if (!interrupts[0]) {
+      return {
+        status: "err",
+        error: new Error(`Subworkflow output ${sub.output} was not computed`),
+      };
+    }
+    const waitUntil = nextWakeUp(Object.fromEntries(interrupts.entries()));
+    return {
+      status: "intr",
+      step: interrupts[0].step,
+      ...(waitUntil !== undefined ? { waitUntil } : {}),
+      items: interrupts,
+      ...(output?.status === "intr" && output.value !== undefined
+        ? { value: output.value }
+        : {}),
     };
   }
 
@@ -343,6 +652,7 @@ export class Workflow<
     dependencies: string[];
     title?: string;
     description?: string;
+    group?: G;
     isSaga?: boolean;
   }[] {
     const visited = new Set<keyof T>();
@@ -352,6 +662,7 @@ export class Workflow<
       dependencies: string[];
       title?: string;
       description?: string;
+      group?: G;
       isSaga?: boolean;
     }[] = [];
 
@@ -366,6 +677,7 @@ export class Workflow<
         dependencies: this.nodes[node].dependencies,
         schema: this.nodes[node].schema,
         title: this.nodes[node].title,
+        group: this.nodes[node].group as G | undefined,
         isSaga: !!this.nodes[node].saga,
         description: this.nodes[node].description,
       });
@@ -378,6 +690,115 @@ export class Workflow<
     return result;
   }
 
+  /**
+   * Aggregates the results of a run per group.
+   *
+   * @param results - The results of `run()` or the values of `dryRun()`.
+   * @returns The status of every group of the workflow.
+   */
+  groupStatus(
+    results: {
+      [K in keyof T]?: Result<T[K]["value"]>;
+    },
+  ): Record<G, GroupStatus> {
+    const statuses = {} as Record<G, GroupStatus>;
+    const order = this.topologicalSort();
+    for (const group of this.groups) {
+      const nodes = order.filter((node) => this.nodes[node].group === group);
+      statuses[group] = aggregate(nodes as string[], results);
+    }
+    return statuses;
+  }
+
+  /**
+   * Aggregates the results of a run over all nodes, like `groupStatus`.
+   *
+   * @param results - The results of `run()` or the values of `dryRun()`.
+   * @returns The status of the whole instance.
+   */
+  status(results: { [K in keyof T]?: Result<T[K]["value"]> }): GroupStatus {
+    return aggregate(this.topologicalSort() as string[], results);
+  }
+
+  /**
+   * Returns the nodes of the given groups and the nodes they depend on, in
+   * topological order, or all nodes if no groups are given.
+   */
+  private selectNodes(groups?: string[]): (keyof T)[] {
+    const order = this.topologicalSort();
+    if (!groups) return order;
+    const selected = new Set<keyof T>();
+    const select = (node: keyof T) => {
+      if (selected.has(node)) return;
+      selected.add(node);
+      for (const dep of this.nodes[node].dependencies) select(dep);
+    };
+    for (const node of order) {
+      const { group } = this.nodes[node];
+      if (group && groups.includes(group)) select(node);
+    }
+    return order.filter((node) => selected.has(node));
+  }
+
+  /**
+   * Renders the graph of this workflow as a Mermaid flowchart, with groups as
+   * subgraphs and sagas as subroutines.
+   *
+   * @param results - Optional results of `run()` or values of `dryRun()`, to color the nodes by status.
+   * @returns The Mermaid source.
+   */
+  toMermaid(results?: { [K in keyof T]?: Result<T[K]["value"]> }): string {
+    return toMermaid(
+      this.diagramNodes(),
+      results as Record<string, Result<unknown>>,
+    );
+  }
+
+  /**
+   * Renders the graph of this workflow in the Graphviz DOT language, with
+   * groups as clusters and sagas with a double border.
+   *
+   * @param results - Optional results of `run()` or values of `dryRun()`, to color the nodes by status.
+   * @returns The DOT source.
+   */
+  toDot(results?: { [K in keyof T]?: Result<T[K]["value"]> }): string {
+    return toDot(
+      this.diagramNodes(),
+      results as Record<string, Result<unknown>>,
+    );
+  }
+
+  /**
+   * Lists what an instance is waiting for: the inputs, signals and timers of
+   * its interrupted nodes, including every interrupted item of map nodes.
+   * Entries are sorted by their deadline or due time, entries without one
+   * come last.
+   *
+   * @param results - The results of `run()` or the values of `dryRun()`.
+   * @returns The outstanding inputs and timers.
+   *
+   * @example
+   * ```typescript
+   * const [next] = workflow.inbox(await workflow.run());
+   * if (next?.kind === "input") {
+   *   await workflow.run([{ ...next.event, v: answer, ts: Date.now() }]);
+   * }
+   * ```
+   */
+  inbox(results: { [K in keyof T]?: Result<T[K]["value"]> }): InboxEntry[] {
+    return collectInbox(
+      this.topologicalSort() as string[],
+      results as Record<string, Result<unknown>>,
+    );
+  }
+
+  private diagramNodes() {
+    return this.topology().map((node) => ({
+      ...node,
+      node: node.node as string,
+    }));
+  }
+
   topologicalSort(): (keyof T)[] {
     const visited = new Set<keyof T>();
     const result: (keyof T)[] = [];
@@ -399,62 +820,419 @@ export class Workflow<
   }
   isRunning = false;
 
-  executeNodes = async (incomingEvents: StepEvent[]): Promise<void> => {
-    for (const node of this.topologicalSort()) {
-      this.currentNode = node;
-      this.currentKeys.push(node as string);
-      this.tempResults![node] = await this.executeNode(
+  /**
+   * Executes all nodes, starting each one as soon as its dependencies have
+   * finished, with at most `run.opts.concurrency` nodes in flight.
+   */
+  private async executeNodes(
+    incomingEvents: StepEvent[],
+    run: RunState,
+    executions: { [K in keyof T]?: NodeExecution },
+  ): Promise<void> {
+    const order = this.selectNodes(run.opts.groups);
+    const limit = run.opts.concurrency ?? Number.POSITIVE_INFINITY;
+    // Nodes with a result before the run started are given as inputs
+    const started = new Set<keyof T>(
+      order.filter((node) => node in run.results),
+    );
+    let active = 0;
+    let finished = started.size;
+
+    await new Promise<void>((resolve) => {
+      const schedule = () => {
+        if (finished === order.length || run.closed || run.signal.aborted) {
+          return resolve();
+        }
+        for (const node of order) {
+          if (active >= limit) break;
+          if (
+            started.has(node) ||
+            this.nodes[node].dependencies.some((d) => !(d in run.results))
+          ) {
+            continue;
+          }
+          started.add(node);
+          active += 1;
+          const exec = newExecution([node as string]);
+          executions[node] = exec;
+          notify(run, "onNodeStart", { node: node as string });
+          this.executeNode(
+            node,
+            incomingEvents.filter((e) => e.k[0] === node),
+            run,
+            exec,
+          )
+            .catch(
+              (error): Result<unknown> => ({
+                status: "err",
+                error: error instanceof Error ? error : new Error("Unknown"),
+              }),
+            )
+            .then((result) => {
+              if (run.closed) return;
+              try {
+                this.notifyResult(node as string, exec, result, run);
+              } finally {
+                run.results[node as string] = result;
+                active -= 1;
+                finished += 1;
+                schedule();
+              }
+            });
+        }
+      };
+      schedule();
+    });
+  }
+
+  /**
+   * Reports the outcome of a node to the interceptors of the run.
+   */
+  private notifyResult(
+    node: string,
+    exec: NodeExecution,
+    result: Result<unknown>,
+    run: RunState,
+  ): void {
+    if (run.interceptors.length === 0) return;
+    const fresh = new Set(exec.fresh);
+    for (const consumed of exec.consumed) {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { c: _c, ...event } = consumed;
+      notify(run, "onEventConsumed", {
         node,
-        incomingEvents.filter((e) => e.k[0] === node),
-      );
-      this.currentKeys.pop();
+        event,
+        fresh: fresh.has(consumed),
+      });
     }
-  };
+    for (const warning of exec.warnings) notify(run, "onWarning", warning);
+    if (result.status === "intr") {
+      notify(run, "onInterrupt", {
+        node,
+        step: result.step as FullStepContext,
+        ...("waitUntil" in result && result.waitUntil !== undefined
+          ? { waitUntil: result.waitUntil }
+          : {}),
+      });
+    }
+    notify(run, "onNodeResult", { node, result });
+  }
 
-  async dryRun(
+  private async execute(
     incomingEvents: StepEvent[],
     opts?: RunOptions,
+    /** Values of nodes that are not computed, and the state of a parent run */
+    internal?: {
+      inputs?: Record<string, unknown>;
+      signals?: RunState["signals"];
+      replay?: boolean;
+      random?: RunState["random"];
+      prefix?: string[];
+    },
   ): Promise<{
     values: { [K in keyof T]?: Result<T[K]["value"]> };
     warnings?: Warning[];
     newEvents: StepEventWithContext[];
+    freshEvents: StepEventWithContext[];
+    compensations: Compensation[];
+    /** Dependency hash of each node that was executed, whatever its result */
+    checkpoints: { [K in keyof T]?: string };
+    /** Dependency hash of each node with a result */
+    hashes: { [K in keyof T]?: string };
     timeout: boolean;
   }> {
+    if (opts?.concurrency !== undefined && !(opts.concurrency >= 1)) {
+      throw new Error(
+        `Invalid concurrency ${opts.concurrency}, it must be at least 1`,
+      );
+    }
     if (this.isRunning) {
-      throw new Error("Workflow is already running");
+      throw new AlreadyRunningError(this.id);
     }
     this.isRunning = true;
-    this.tempResults = {};
-    this.tempNewEvents = {};
-    this.newConsumedEvents = [];
-    this.tempRunOpts = opts ?? null;
-    this.tempWarnings = [];
+    try {
+      return await this.executeRun(incomingEvents, opts, internal);
+    } finally {
+      this.isRunning = false;
+    }
+  }
 
+  private async executeRun(
+    incomingEvents: StepEvent[],
+    opts?: RunOptions,
+    internal?: Parameters<Workflow<T, G>["execute"]>[2],
+  ): ReturnType<Workflow<T, G>["execute"]> {
     let timeout = false;
+    const controller = new AbortController();
+    const abort = () => controller.abort(opts?.signal?.reason);
+    if (opts?.signal?.aborted) abort();
+    opts?.signal?.addEventListener("abort", abort);
+    const timer = opts?.timeout
+      ? setTimeout(() => {
+          timeout = true;
+          controller.abort(new WorkflowTimeoutError(opts.timeout!));
+        }, opts.timeout)
+      : undefined;
 
-    const executionPromise = this.executeNodes(incomingEvents);
+    const run: RunState = {
+      results: _.mapValues(internal?.inputs, (value) => ({
+        status: "done" as const,
+        value,
+      })),
+      opts: opts ?? {},
+      closed: false,
+      signals: internal?.signals ?? this.pendingSignals(),
+      signal: controller.signal,
+      replay: internal?.replay ?? false,
+      random: internal?.random ?? {
+        seed: String(
+          this.events[SEED]?.[0]?.v ?? opts?.seed ?? crypto.randomUUID(),
+        ),
+        used: false,
+      },
+      interceptors: [...this.interceptors, ...(opts?.interceptors ?? [])],
+      prefix: internal?.prefix ?? [],
+    };
+    const executions: { [K in keyof T]?: NodeExecution } = {};
+    notify(run, "onRunStart", {
+      ...(this.id ? { id: this.id } : {}),
+      nodes: this.selectNodes(opts?.groups) as string[],
+      replay: run.replay,
+    });
 
-    if (opts?.timeout) {
+    try {
       await Promise.race([
-        executionPromise,
-        sleep(opts?.timeout ?? 1000).then(() => {
-          timeout = true;
+        this.executeNodes(incomingEvents, run, executions),
+        new Promise<void>((resolve) => {
+          if (controller.signal.aborted) resolve();
+          controller.signal.addEventListener("abort", () => resolve());
         }),
       ]);
-    } else {
-      await executionPromise;
+    } finally {
+      run.closed = true;
+      clearTimeout(timer);
+      opts?.signal?.removeEventListener("abort", abort);
+    }
+    // Nodes that were still executing are abandoned
+    for (const node of Object.keys(executions)) {
+      run.results[node] ??= { status: "cancelled" };
+    }
+
+    // Collect everything in topological order, so that the outcome does not
+    // depend on which node finished first
+    const results: { [K in keyof T]?: Result<T[K]["value"]> } = {};
+    const warnings: Warning[] = [];
+    const newEvents: StepEventWithContext[] = [];
+    const freshEvents: StepEventWithContext[] = [];
+    const compensations: Compensation[] = [];
+    const checkpoints: { [K in keyof T]?: string } = {};
+    const hashes: { [K in keyof T]?: string } = {};
+    for (const node of this.topologicalSort()) {
+      const result = run.results[node as string];
+      if (!result) continue;
+      results[node] = result;
+      hashes[node] = this.dependencyHash(node, run.results);
+      const exec = executions[node];
+      if (!exec || exec.restored || result.status === "cancelled") continue;
+      checkpoints[node] = hashes[node];
+      warnings.push(...exec.warnings);
+      newEvents.push(...exec.consumed);
+      freshEvents.push(...exec.fresh);
+      compensations.push(...exec.compensations);
+    }
+    // The seed is recorded once, by the instance that runs the nodes
+    if (run.random.used && !internal?.random && !this.events[SEED]) {
+      const seed: StepEventWithContext = {
+        k: [SEED],
+        v: run.random.seed,
+        ts: opts?.now ? opts.now() : Date.now(),
+        c: { key: SEED, schema: SeedSchema },
+      };
+      newEvents.push(seed);
+      freshEvents.push(seed);
+    }
+    return {
+      values: results,
+      newEvents,
+      freshEvents,
+      compensations,
+      checkpoints,
+      hashes,
+      timeout,
+      warnings,
+    };
+  }
+
+  async dryRun(
+    incomingEvents: StepEvent[],
+    opts?: RunOptions,
+  ): Promise<{
+    values: { [K in keyof T]?: Result<T[K]["value"]> };
+    warnings?: Warning[];
+    newEvents: StepEventWithContext[];
+    timeout: boolean;
+  }> {
+    const { values, newEvents, timeout, warnings } = await this.execute(
+      incomingEvents,
+      opts,
+    );
+    return { values, newEvents, timeout, warnings };
+  }
+
+  /**
+   * Returns all events of this instance in the order they were recorded: the
+   * event logs of the nodes are merged by timestamp, and the events of the
+   * same node keep their order even if their timestamps do not.
+   */
+  history(): StepEvent[] {
+    const logs = Object.values(this.events as Record<string, StepEvent[]>);
+    const cursors = logs.map(() => 0);
+    const history: StepEvent[] = [];
+    for (;;) {
+      let next = -1;
+      for (let i = 0; i < logs.length; i++) {
+        if (
+          cursors[i] < logs[i].length &&
+          (next === -1 || logs[i][cursors[i]].ts < logs[next][cursors[next]].ts)
+        ) {
+          next = i;
+        }
+      }
+      if (next === -1) return history;
+      history.push(logs[next][cursors[next]++]);
+    }
+  }
+
+  /**
+   * Replays this instance as it was after the first `until` events of its
+   * `history()`, to inspect the result of every node at that point. Captured
+   * functions are not called, and nothing is recorded.
+   *
+   * Nodes whose events were dropped by `compact()` can not be replayed.
+   *
+   * @param opts - `until` is the number of events to replay (defaults to all),
+   * `now` defaults to the timestamp of the last replayed event.
+   * @returns The results of the nodes and the events they consumed, like `dryRun()`.
+   *
+   * @example
+   * ```typescript
+   * const before = await workflow.replay({ until: 3 });
+   * const after = await workflow.replay({ until: 4 });
+   * console.log(diffRuns(before, after).nodes);
+   * ```
+   */
+  async replay(
+    opts: Pick<RunOptions, "now" | "concurrency"> & { until?: number } = {},
+  ): Promise<{
+    values: { [K in keyof T]?: Result<T[K]["value"]> };
+    warnings?: Warning[];
+    newEvents: StepEventWithContext[];
+    /** The replayed events */
+    events: StepEvent[];
+  }> {
+    const events = this.history().slice(0, opts.until);
+    const ts = events[events.length - 1]?.ts ?? 0;
+    const w = this.spawn();
+    w.addEvents(events);
+    const { values, newEvents, warnings } = await w.execute(
+      [],
+      { now: opts.now ?? (() => ts), concurrency: opts.concurrency },
+      {
+        replay: true,
+        // Draw the same numbers, even before the seed was recorded
+        random: { seed: String(this.events[SEED]?.[0]?.v ?? ""), used: false },
+      },
+    );
+    return { values, newEvents, warnings, events };
+  }
+
+  /**
+   * Migrates the event log of this instance with `migrateEvents`, e.g. after
+   * a node or a step was renamed. The migrated log is validated with a dry
+   * run first, that must not fail and must consume the events of every node
+   * it runs. Snapshots of migrated nodes are dropped, renamed nodes keep them.
+   *
+   * @param migrations - The changes to apply, in order.
+   * @param opts - `now` and `concurrency` are used for the dry run.
+   * @returns The migrated events, in the order of `history()`, so that the
+   * events of every node keep their order.
+   * @throws MigrationError if the migrated log is invalid, the log is left untouched then.
+   */
+  async migrate(
+    migrations: Migration[],
+    opts?: Pick<RunOptions, "now" | "concurrency">,
+  ): Promise<StepEvent[]> {
+    const events = migrateEvents(this.history(), migrations);
+    // Cursors are only valid as long as the events of the node are unchanged
+    const changed = new Set(
+      migrations.flatMap((m) =>
+        "renameNode" in m
+          ? []
+          : "renameStep" in m
+            ? [m.renameStep.node]
+            : "dropStep" in m
+              ? [m.dropStep.node]
+              : [m.transformValue.node],
+      ),
+    );
+    const snapshots: Record<string, Snapshot> = {};
+    for (const [node, snapshot] of Object.entries(
+      this.snapshots as Record<string, Snapshot>,
+    )) {
+      const renamed = migrations.reduce(
+        (key, m) =>
+          "renameNode" in m && m.renameNode.from === key
+            ? m.renameNode.to
+            : key,
+        node,
+      );
+      if (!changed.has(node) && !changed.has(renamed)) {
+        snapshots[renamed] = snapshot;
+      }
+    }
+
+    const w = this.spawn();
+    const issues: { node: string; message: string }[] = [];
+    for (const node of _.uniq(events.map((e) => e.k[0]))) {
+      if (!(node in this.nodes) && !STREAMS.includes(node)) {
+        issues.push({ node, message: "unknown node" });
+      }
+    }
+    if (issues.length === 0) {
+      w.addEvents(events);
+      w.snapshots = snapshots as Workflow<T, G>["snapshots"];
+      const { values, newEvents } = await w.execute(
+        [],
+        { now: opts?.now, concurrency: opts?.concurrency },
+        { replay: true },
+      );
+      const consumed = _.countBy(newEvents, (e) => e.k[0]);
+      for (const node of this.topologicalSort() as string[]) {
+        const result = values[node];
+        const stored = (w.events[node] ?? []).length;
+        if (result?.status === "err") {
+          issues.push({ node, message: result.error.message });
+        } else if (
+          result?.status !== "pending" &&
+          !(result?.status === "done" && isCheckpoint(w.snapshots[node])) &&
+          (consumed[node] ?? 0) < stored
+        ) {
+          issues.push({
+            node,
+            message: `${stored - (consumed[node] ?? 0)} events are not consumed`,
+          });
+        }
+      }
     }
+    if (issues.length > 0) throw new MigrationError(issues);
 
-    const results = this.tempResults;
-    const warnings = this.tempWarnings;
-    const newEvents = this.newConsumedEvents;
-    this.tempWarnings = null;
-    this.newConsumedEvents = null;
-    this.tempRunOpts = null;
-    this.tempResults = null;
-    this.tempNewEvents = null;
-    this.isRunning = false;
-    return { values: results, newEvents, timeout, warnings };
+    this.events = {};
+    this.addEvents(events);
+    this.snapshots = snapshots as Workflow<T, G>["snapshots"];
+    if (this.store && this.id) {
+      await this.store.replace(this.id, { events, snapshots });
+    }
+    return events;
   }
 
   async run(
@@ -462,32 +1240,323 @@ export class Workflow<
     opts?: RunOptions,
   ): Promise<{ [K in keyof T]?: Result<T[K]["value"]> }> {
     const {
-      newEvents,
+      freshEvents,
       values: results,
+      checkpoints,
+      hashes,
       timeout,
-    } = await this.dryRun(incomingEvents ?? [], opts);
-
-    if (timeout) throw new Error("Timeout");
+    } = await this.execute(incomingEvents ?? [], opts);
 
-    this.events ||= {};
-    for (const e of newEvents) {
-      const node = e.k[0] as keyof T;
-      this.events[node] ||= [];
-      this.events[e.k[0]]!.push(e);
+    if (timeout) {
+      if (opts?.rollback) await this.compensate(opts);
+      throw new WorkflowTimeoutError(opts!.timeout!);
     }
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const newEvents = freshEvents.map(({ c: _c, ...e }): StepEvent => e);
+    this.addEvents(newEvents);
+    let snapshotsChanged = false;
     for (const k in results) {
       const result = results[k];
       if (result?.status === "intr" && result.eventIdx) {
-        this.snapshots[k] = [result.eventIdx, result.value];
+        this.snapshots[k] = [
+          result.eventIdx,
+          result.value,
+          result.iteration ?? 0,
+        ];
+        snapshotsChanged = true;
+      }
+    }
+    this.hashes = hashes;
+    this.awaitedSignals = this.inbox(results).filter(
+      (entry) => entry.kind === "signal",
+    );
+    for (const k in checkpoints) {
+      const result = results[k];
+      if (this.nodes[k].saga) continue;
+      if (opts?.checkpoint && result?.status === "done") {
+        const cursor = this.events[k]?.length ?? 0;
+        this.snapshots[k] = [cursor, result.value, checkpoints[k]!];
+        snapshotsChanged = true;
+      } else if (this.snapshots[k]) {
+        // The node was executed again, whatever its result, so its
+        // checkpoint is outdated
+        delete this.snapshots[k];
+        snapshotsChanged = true;
       }
     }
+    if (this.store && this.id) {
+      await this.store.append(this.id, newEvents);
+      if (snapshotsChanged) {
+        await this.store.saveSnapshots(
+          this.id,
+          this.snapshots as Record<string, Snapshot>,
+        );
+      }
+    }
+    if (
+      opts?.rollback &&
+      Object.values(results).some(
+        (r) => r?.status === "err" || r?.status === "cancelled",
+      )
+    ) {
+      await this.compensate(opts);
+    }
     return results;
   }
+
+  /**
+   * Undoes the side effects of this instance: runs the compensations of all
+   * recorded captures, latest capture first.
+   *
+   * The nodes are replayed to find the compensations, without calling any
+   * captured function that has not been recorded yet. Every compensation
+   * that completes is recorded, so that it is not run again. When a
+   * compensation throws, the remaining ones are not run and calling
+   * `compensate()` again resumes the rollback.
+   *
+   * @param opts - `now` and `concurrency` are used to replay the nodes.
+   * @returns The key paths of the captures compensated by this call.
+   */
+  async compensate(
+    opts?: Pick<RunOptions, "now" | "concurrency">,
+  ): Promise<string[][]> {
+    const { compensations } = await this.execute(
+      [],
+      { now: opts?.now, concurrency: opts?.concurrency },
+      { replay: true },
+    );
+    // Captures that were compensated before, latest first
+    const done = _.countBy(this.events[COMPENSATED] ?? [], (e) =>
+      JSON.stringify(e.k.slice(1)),
+    );
+    const compensated: string[][] = [];
+    const latestFirst = _.sortBy(compensations, (c) => c.ts).reverse();
+    for (const { key, compensate } of latestFirst) {
+      const id = JSON.stringify(key);
+      if (done[id]) {
+        done[id] -= 1;
+        continue;
+      }
+      await compensate();
+      const event: StepEvent = {
+        k: [COMPENSATED, ...key],
+        v: null,
+        ts: opts?.now ? opts.now() : Date.now(),
+      };
+      this.addEvents([event]);
+      if (this.store && this.id) await this.store.append(this.id, [event]);
+      compensated.push(key);
+    }
+    return compensated;
+  }
+
+  /**
+   * Drops the events covered by checkpoints, see `RunOptions.checkpoint`.
+   * Nodes with a checkpoint keep their value without their events, and the
+   * signals they consumed are dropped as well.
+   *
+   * Only the checkpoints that match the dependencies of the nodes in the
+   * latest `run()` of this instance are used, so run the instance first.
+   *
+   * Compacted nodes can no longer be executed again without calling their
+   * captured functions anew, e.g. when a dependency changes, and the
+   * compensations of their captures are no longer run by `compensate()`.
+   *
+   * @returns The number of events dropped.
+   */
+  async compact(): Promise<number> {
+    const events = this.events as Record<string, StepEvent[]>;
+    const signals: Record<string, number> = {};
+    let dropped = 0;
+    for (const [node, snapshot] of Object.entries(
+      this.snapshots as Record<string, Snapshot>,
+    )) {
+      // Only checkpoints that the latest run restored or recorded are trusted
+      if (
+        !isCheckpoint(snapshot) ||
+        snapshot[2] !== this.hashes[node] ||
+        !events[node]
+      ) {
+        continue;
+      }
+      const covered = events[node].slice(0, snapshot[0]);
+      for (const { k } of covered) {
+        const step = k[k.length - 1];
+        if (step.startsWith("signal:")) {
+          signals[step.slice(7)] = (signals[step.slice(7)] ?? 0) + 1;
+        }
+      }
+      events[node] = events[node].slice(snapshot[0]);
+      dropped += covered.length;
+    }
+    // Signals are consumed oldest first
+    if (events[SIGNALS]) {
+      const kept = events[SIGNALS].filter(({ k: [, name] }) => {
+        if (!signals[name]) return true;
+        signals[name] -= 1;
+        return false;
+      });
+      dropped += events[SIGNALS].length - kept.length;
+      events[SIGNALS] = kept;
+    }
+    if (dropped > 0 && this.store && this.id) {
+      await this.store.replace(this.id, {
+        events: Object.values(events).flat(),
+        snapshots: this.snapshots as Record<string, Snapshot>,
+      });
+    }
+    return dropped;
+  }
+
+  /**
+   * Buffers a signal for the nodes waiting for it with `waitForSignal`.
+   * The signal is persisted right away if this instance is attached to a
+   * store, and is consumed by the next run that has a node waiting for it.
+   *
+   * @param name - The name of the signal.
+   * @param payload - The payload of the signal.
+   * @param ts - When the signal was sent, defaults to now.
+   * @throws StepValidationError if the payload does not match the schema of
+   * a node that waits for the signal in the latest run. Signals sent before
+   * a node waits for them are checked when they are consumed.
+   */
+  async signal(
+    name: string,
+    payload: unknown,
+    ts: number = Date.now(),
+  ): Promise<void> {
+    for (const entry of this.awaitedSignals) {
+      if (entry.kind === "signal" && entry.signal === name) {
+        validateStep(entry.key, entry.schema, payload);
+      }
+    }
+    const event: StepEvent = { k: [SIGNALS, name], v: payload, ts };
+    this.addEvents([event]);
+    if (this.store && this.id) await this.store.append(this.id, [event]);
+  }
+
+  /**
+   * Returns the signals that have not been consumed yet, by name. Consumed
+   * signals are recorded as `signal:<name>` steps in the logs of the nodes.
+   */
+  private pendingSignals(): RunState["signals"] {
+    const events = this.events as Record<string, StepEvent[]>;
+    const consumed = _.countBy(
+      Object.entries(events)
+        .filter(([node]) => !STREAMS.includes(node))
+        .flatMap(([, e]) => e),
+      (e) => e.k[e.k.length - 1],
+    );
+    const pending: RunState["signals"] = {};
+    for (const signal of events[SIGNALS] ?? []) {
+      const [, name] = signal.k;
+      const key = `signal:${name}`;
+      if (consumed[key]) {
+        consumed[key] -= 1;
+      } else {
+        pending[name] ||= [];
+        pending[name].push(signal);
+      }
+    }
+    return pending;
+  }
+
+  private addEvents(events: StepEvent[]): void {
+    for (const e of events) {
+      const node = e.k[0] as keyof T;
+      this.events[node] ||= [];
+      this.events[node]!.push(e);
+    }
+  }
+
+  /**
+   * Attaches this instance to an event store. Subsequent runs append their
+   * newly consumed events and saga snapshots to the store under `id`.
+   *
+   * @param store - The event store to persist to.
+   * @param id - The id of this instance in the store.
+   * @returns This instance.
+   */
+  attach(store: EventStore, id: string): this {
+    this.store = store;
+    this.id = id;
+    return this;
+  }
+
+  /**
+   * Creates a new instance of this workflow from the events and snapshots
+   * persisted in an event store, attached to that store.
+   *
+   * @param store - The event store to load from.
+   * @param id - The id of the instance to load.
+   * @returns The rehydrated instance, or a fresh one if `id` is unknown.
+   */
+  async rehydrate(store: EventStore, id: string): Promise<Workflow<T, G>> {
+    const w = this.spawn().attach(store, id);
+    const stored = await store.load(id);
+    if (stored) {
+      w.addEvents(stored.events);
+      w.snapshots = stored.snapshots as Workflow<T, G>["snapshots"];
+    }
+    return w;
+  }
+
+  /**
+   * Exports the state of this instance: the event log of each node and the
+   * saga snapshots, in the versioned format described by `WorkflowStateSchema`.
+   *
+   * @returns A JSON-serializable copy of the instance state.
+   */
+  toJSON(): WorkflowState {
+    return _.cloneDeep({
+      version: WORKFLOW_STATE_VERSION,
+      ...(this.id ? { id: this.id } : {}),
+      events: this.events as Record<string, StepEvent[]>,
+      snapshots: this.snapshots as Record<string, Snapshot>,
+    });
+  }
+
+  /**
+   * Creates a new instance of a workflow from a state exported by `toJSON()`.
+   *
+   * @param definition - Any instance of the workflow the state belongs to.
+   * @param state - The exported state, e.g. parsed from JSON.
+   * @returns A new instance holding the given state.
+   * @throws If the state does not match `WorkflowStateSchema` or refers to
+   * nodes that do not exist in the workflow.
+   */
+  static restore<
+    T extends Record<string, DAGNode<unknown, string>>,
+    G extends string,
+  >(definition: Workflow<T, G>, state: unknown): Workflow<T, G> {
+    if (!Value.Check(WorkflowStateSchema, state)) {
+      const error = Value.Errors(WorkflowStateSchema, state).First();
+      throw new Error(
+        `Invalid workflow state at ${error?.path || "/"}: ${error?.message}`,
+      );
+    }
+    for (const node of [
+      ...Object.keys(state.events),
+      ...Object.keys(state.snapshots),
+    ]) {
+      if (!(node in definition.nodes) && !STREAMS.includes(node)) {
+        throw new Error(`Invalid workflow state: unknown node ${node}`);
+      }
+    }
+    const { id, events, snapshots } = _.cloneDeep(state);
+    const w = definition.spawn();
+    w.id = id;
+    w.events = events as Workflow<T, G>["events"];
+    w.snapshots = snapshots as Workflow<T, G>["snapshots"];
+    return w;
+  }
+
   spawn(): Workflow<T, G> {
-    return new Workflow(this.nodes, this.groups);
+    return new Workflow(this.nodes, this.groups, this.interceptors);
   }
   fork(): Workflow<T, G> {
-    const w = new Workflow(this.nodes, this.groups);
+    const w = new Workflow(this.nodes, this.groups, this.interceptors);
     w.events = { ...this.events };
     w.snapshots = { ...this.snapshots };
     return w;